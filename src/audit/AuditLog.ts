@@ -0,0 +1,143 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+import { GraphCall } from '../graph/GraphCallRecorder.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('audit');
+
+// Free-text arguments that are replaced by a hash when hashBodies is set
+const BODY_ARGUMENTS = new Set(['message', 'body', 'comment', 'adaptiveCard']);
+
+export interface AuditEntry {
+  timestamp: string;
+  account: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  outcome: 'success' | 'error';
+  error?: string;
+  graphRequests: GraphCall[];
+}
+
+export interface AuditQuery {
+  since?: Date;
+  tool?: string;
+  outcome?: AuditEntry['outcome'];
+  limit: number;
+}
+
+/**
+ * Append-only JSONL record of write tool calls. The file is rotated to .1, .2, ...
+ * once it reaches maxFileSizeMB; the oldest rotated file beyond maxFiles is dropped.
+ */
+export class AuditLog {
+  // Appends are chained so entries are written whole and in order
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private options: ConnectorConfig['audit'],
+    private getAccount: () => string
+  ) {}
+
+  record(entry: Omit<AuditEntry, 'timestamp' | 'account' | 'arguments'> & { arguments: unknown }): Promise<void> {
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      account: this.getAccount(),
+      ...entry,
+      arguments: this.normalizeArguments(entry.arguments)
+    } satisfies AuditEntry) + '\n';
+
+    this.writing = this.writing
+      .then(() => this.append(line))
+      .catch(error => logger.error('Failed to write audit log entry', { error }));
+    return this.writing;
+  }
+
+  /**
+   * Entries matching the query, newest first. Reads the current file and then the
+   * rotated ones, stopping once enough entries are found.
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.writing;
+    const entries: AuditEntry[] = [];
+
+    for (let index = 0; index <= this.options.maxFiles; index++) {
+      const content = await fs.readFile(this.rotatedFile(index), 'utf-8').catch((error: any) => {
+        if (error.code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      });
+      if (content === undefined) {
+        continue;
+      }
+
+      const lines = content.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // A partially written line from a crash
+        }
+
+        if (query.since && Date.parse(entry.timestamp) < query.since.getTime()) {
+          return entries; // Everything further back is older
+        }
+        if ((query.tool && entry.tool !== query.tool) || (query.outcome && entry.outcome !== query.outcome)) {
+          continue;
+        }
+
+        entries.push(entry);
+        if (entries.length === query.limit) {
+          return entries;
+        }
+      }
+    }
+    return entries;
+  }
+
+  private normalizeArguments(args: unknown): Record<string, unknown> {
+    const normalized: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries((args ?? {}) as Record<string, unknown>)) {
+      if (value === undefined) {
+        continue;
+      }
+      normalized[key] = this.options.hashBodies && BODY_ARGUMENTS.has(key) ? hashValue(value) : value;
+    }
+    return normalized;
+  }
+
+  private async append(line: string): Promise<void> {
+    const file = this.options.file;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    const size = await fs.stat(file).then(stats => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.options.maxFileSizeMB * 1024 * 1024) {
+      await this.rotate();
+    }
+
+    // The log names recipients and subjects, so keep it private to the user
+    await fs.appendFile(file, line, { mode: 0o600 });
+  }
+
+  private async rotate(): Promise<void> {
+    for (let index = this.options.maxFiles - 1; index >= 0; index--) {
+      await fs.rename(this.rotatedFile(index), this.rotatedFile(index + 1)).catch((error: any) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      });
+    }
+  }
+
+  private rotatedFile(index: number): string {
+    return index === 0 ? this.options.file : `${this.options.file}.${index}`;
+  }
+}
+
+function hashValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `sha256:${createHash('sha256').update(text).digest('hex').slice(0, 16)}`;
+}
@@ -1,27 +1,89 @@
-import { PublicClientApplication, AccountInfo, AuthenticationResult } from '@azure/msal-node';
-import { Client } from '@microsoft/microsoft-graph-client';
+import {
+  PublicClientApplication,
+  ConfidentialClientApplication,
+  AccountInfo,
+  AuthenticationResult
+} from '@azure/msal-node';
+import {
+  AuthenticationHandler,
+  Client,
+  HTTPMessageHandler,
+  RedirectHandler,
+  TelemetryHandler
+} from '@microsoft/microsoft-graph-client';
 import * as keytar from 'keytar';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import open from 'open';
 import express from 'express';
+import { ConnectorConfig, getAuthority, getRedirectUri } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+import { ResilienceHandler } from '../graph/ResilienceHandler.js';
+import { GraphCallRecorder } from '../graph/GraphCallRecorder.js';
 
 const SERVICE_NAME = 'MCPTeamsConnector';
-const CACHE_DIR = path.join(process.cwd(), '.cache');
+const logger = createLogger('auth');
+// Holds the MSAL token cache
+export const CACHE_DIR = path.join(process.cwd(), '.cache');
 const TOKEN_CACHE_FILE = path.join(CACHE_DIR, 'tokens.json');
 
+const GRAPH_SCOPES = [
+  'User.Read',
+  'User.ReadBasic.All',
+  'People.Read',
+  'Calendars.ReadWrite',
+  'MailboxSettings.Read',
+  'Chat.ReadWrite',
+  'ChannelMessage.Send',
+  'Team.ReadBasic.All',
+  'OnlineMeetings.ReadWrite'
+];
+
+// Only requested when mail.enabled is on
+const MAIL_SCOPES = ['Mail.Send', 'Mail.ReadWrite'];
+
+// Requires admin consent; only requested when features.channelMessages is on
+const CHANNEL_MESSAGE_SCOPES = ['ChannelMessage.Read.All'];
+
+// App-only tokens carry the application permissions granted to the app registration
+const APP_ONLY_SCOPES = ['https://graph.microsoft.com/.default'];
+
+export type AuthMode = 'interactive' | 'deviceCode' | 'appOnly';
+
+export interface DeviceCodePrompt {
+  userCode: string;
+  verificationUri: string;
+  message: string;
+  expiresAt: Date;
+}
+
 export class GraphAuthProvider {
   private msalClient: PublicClientApplication;
+  private confidentialClient: ConfidentialClientApplication | null = null;
   private graphClient: Client | null = null;
   private currentAccount: AccountInfo | null = null;
+  private redirectUri: string;
+  private pendingDeviceCode: DeviceCodePrompt | null = null;
+  private scopes: string[];
+
+  /**
+   * Called when device code login is waiting for the user to sign in on another device.
+   */
+  onDeviceCode?: (prompt: DeviceCodePrompt) => void;
   
-  constructor() {
-    // Using the MeetingAssist app registration from darbot_config
+  constructor(private config: ConnectorConfig) {
+    this.redirectUri = getRedirectUri(config);
+    this.scopes = [
+      ...GRAPH_SCOPES,
+      ...(config.mail.enabled ? MAIL_SCOPES : []),
+      ...(config.features.channelMessages ? CHANNEL_MESSAGE_SCOPES : [])
+    ];
+
     const msalConfig = {
       auth: {
-        clientId: 'bedaebf0-4f7a-4c5b-8861-e082001a8193', // MeetingAssist app
-        authority: 'https://login.microsoftonline.com/6b104499-c49f-45dc-b3a2-df95efd6eeb4',
-        redirectUri: 'http://localhost:3000/redirect'
+        clientId: config.auth.clientId,
+        authority: getAuthority(config),
+        redirectUri: this.redirectUri
       },
       cache: {
         cachePlugin: {
@@ -31,7 +93,7 @@ export class GraphAuthProvider {
               cacheContext.tokenCache.deserialize(data);
             } catch (error) {
               // Cache doesn't exist yet, this is normal on first run
-              console.log('No existing token cache found, will create new one');
+              logger.debug('No existing token cache found, will create new one');
             }
           },
           afterCacheAccess: async (cacheContext: any) => {
@@ -39,9 +101,9 @@ export class GraphAuthProvider {
               try {
                 await fs.mkdir(CACHE_DIR, { recursive: true });
                 await fs.writeFile(TOKEN_CACHE_FILE, cacheContext.tokenCache.serialize());
-                console.log('Token cache updated');
+                logger.debug('Token cache updated');
               } catch (error) {
-                console.error('Failed to write token cache:', error);
+                logger.error('Failed to write token cache', { error });
               }
             }
           }
@@ -53,30 +115,125 @@ export class GraphAuthProvider {
   }
 
   async authenticate(): Promise<void> {
+    if (this.isAppOnly()) {
+      await this.appOnlyLogin();
+      return;
+    }
+
     // Try to get cached account
     const accounts = await this.msalClient.getAllAccounts();
     
     if (accounts.length > 0) {
       this.currentAccount = accounts[0];
-      console.log(`Using cached credentials for: ${this.currentAccount.username}`);
+      logger.info(`Using cached credentials for: ${this.currentAccount.username}`);
       
       // Try silent token acquisition
       try {
         await this.acquireTokenSilent();
-        console.log('Successfully authenticated using cached credentials');
+        logger.info('Successfully authenticated using cached credentials');
         return;
       } catch (error) {
-        console.log('Silent token acquisition failed, initiating interactive login...');
+        logger.info('Silent token acquisition failed, initiating interactive login...');
       }
     }
 
     // Interactive login required
-    await this.interactiveLogin();
+    if (this.resolveAuthMode() === 'deviceCode') {
+      await this.deviceCodeLogin();
+    } else {
+      await this.interactiveLogin();
+    }
+  }
+
+  resolveAuthMode(): AuthMode {
+    if (this.config.auth.mode !== 'auto') {
+      return this.config.auth.mode;
+    }
+
+    return hasDisplay() ? 'interactive' : 'deviceCode';
+  }
+
+  isAppOnly(): boolean {
+    return this.config.auth.mode === 'appOnly';
+  }
+
+  /**
+   * Graph path prefix for the user the tools act on: the signed-in user, or the
+   * configured user in app-only mode where there is no /me.
+   */
+  getUserPath(): string {
+    return this.isAppOnly()
+      ? `/users/${encodeURIComponent(this.config.auth.userId!)}`
+      : '/me';
+  }
+
+  getIdentityLabel(): string {
+    if (this.isAppOnly()) {
+      return `application ${this.config.auth.clientId} acting for ${this.config.auth.userId}`;
+    }
+
+    return this.currentAccount?.username || 'not signed in';
+  }
+
+  getPendingDeviceCode(): DeviceCodePrompt | null {
+    return this.pendingDeviceCode;
+  }
+
+  private async deviceCodeLogin(): Promise<void> {
+    try {
+      const tokenResponse = await this.msalClient.acquireTokenByDeviceCode({
+        scopes: this.scopes,
+        deviceCodeCallback: (response) => {
+          this.pendingDeviceCode = {
+            userCode: response.userCode,
+            verificationUri: response.verificationUri,
+            message: response.message,
+            expiresAt: new Date(Date.now() + response.expiresIn * 1000)
+          };
+
+          // stdout carries the MCP protocol, so the prompt goes to stderr
+          process.stderr.write(`${response.message}\n`);
+          this.onDeviceCode?.(this.pendingDeviceCode);
+        }
+      });
+
+      if (!tokenResponse) {
+        throw new Error('Device code authentication did not return a token');
+      }
+
+      this.currentAccount = tokenResponse.account;
+      logger.info('Device code authentication completed successfully');
+    } finally {
+      this.pendingDeviceCode = null;
+    }
+  }
+
+  private async appOnlyLogin(): Promise<void> {
+    const { clientSecret, certificate } = this.config.auth;
+    const auth: ConstructorParameters<typeof ConfidentialClientApplication>[0]['auth'] = {
+      clientId: this.config.auth.clientId,
+      authority: getAuthority(this.config)
+    };
+
+    if (certificate) {
+      auth.clientCertificate = {
+        thumbprintSha256: certificate.thumbprintSha256,
+        privateKey: await fs.readFile(certificate.privateKeyPath, 'utf-8')
+      };
+    } else if (clientSecret) {
+      auth.clientSecret = clientSecret;
+    }
+
+    this.confidentialClient = new ConfidentialClientApplication({ auth });
+
+    // Fail fast on bad credentials instead of on the first tool call
+    await this.acquireToken();
+    logger.info(`App-only authentication successful for ${this.getIdentityLabel()}`);
   }
 
   private async interactiveLogin(): Promise<void> {
     const app = express();
-    const port = 3000;
+    const port = this.config.auth.redirectPort;
     
     return new Promise((resolve, reject) => {
       app.get('/redirect', async (req, res) => {
@@ -91,23 +248,15 @@ export class GraphAuthProvider {
         try {
           const tokenResponse = await this.msalClient.acquireTokenByCode({
             code,
-            scopes: [
-              'User.Read',
-              'Calendars.ReadWrite',
-              'Mail.Send',
-              'Chat.ReadWrite',
-              'ChannelMessage.Send',
-              'Team.ReadBasic.All',
-              'OnlineMeetings.ReadWrite'
-            ],
-            redirectUri: 'http://localhost:3000/redirect'
+            scopes: this.scopes,
+            redirectUri: this.redirectUri
           });
 
           this.currentAccount = tokenResponse.account;
           
           // Note: MSAL-node handles refresh tokens internally for security
           // We rely on the token cache for persistence
-          console.log('Authentication tokens cached successfully');
+          logger.info('Authentication tokens cached successfully');
 
           res.send(`
             <html>
@@ -121,10 +270,10 @@ export class GraphAuthProvider {
           `);
 
           server.close();
-          console.log('Interactive authentication completed successfully');
+          logger.info('Interactive authentication completed successfully');
           resolve();
         } catch (error) {
-          console.error('Authentication error:', error);
+          logger.error('Authentication error', { error });
           res.send(`
             <html>
               <body>
@@ -140,24 +289,16 @@ export class GraphAuthProvider {
       const server = app.listen(port, async () => {
         try {
           const authUrl = await this.msalClient.getAuthCodeUrl({
-            scopes: [
-              'User.Read',
-              'Calendars.ReadWrite',
-              'Mail.Send',
-              'Chat.ReadWrite',
-              'ChannelMessage.Send',
-              'Team.ReadBasic.All',
-              'OnlineMeetings.ReadWrite'
-            ],
-            redirectUri: 'http://localhost:3000/redirect',
+            scopes: this.scopes,
+            redirectUri: this.redirectUri,
             prompt: 'select_account'
           });
 
-          console.log(`Opening browser for authentication...`);
-          console.log(`If browser doesn't open automatically, visit: ${authUrl}`);
+          logger.info(`Opening browser for authentication...`);
+          logger.info(`If browser doesn't open automatically, visit: ${authUrl}`);
           await open(authUrl);
         } catch (error) {
-          console.error('Failed to initiate authentication:', error);
+          logger.error('Failed to initiate authentication', { error });
           reject(error);
         }
       });
@@ -177,72 +318,122 @@ export class GraphAuthProvider {
     
     const silentRequest = {
       account: this.currentAccount,
-      scopes: [
-        'User.Read',
-        'Calendars.ReadWrite',
-        'Mail.Send',
-        'Chat.ReadWrite',
-        'ChannelMessage.Send',
-        'Team.ReadBasic.All',
-        'OnlineMeetings.ReadWrite'
-      ],
+      scopes: this.scopes,
       forceRefresh: false
     };
 
     return await this.msalClient.acquireTokenSilent(silentRequest);
   }
 
+  private async acquireToken(): Promise<AuthenticationResult> {
+    if (!this.confidentialClient) {
+      return await this.acquireTokenSilent();
+    }
+
+    const tokenResponse = await this.confidentialClient.acquireTokenByClientCredential({
+      scopes: APP_ONLY_SCOPES
+    });
+
+    if (!tokenResponse) {
+      throw new Error('Client credentials flow did not return a token');
+    }
+
+    return tokenResponse;
+  }
+
   async getGraphClient(): Promise<Client> {
     if (!this.graphClient) {
-      this.graphClient = Client.init({
-        authProvider: async (done) => {
+      const authenticationHandler = new AuthenticationHandler({
+        getAccessToken: async () => {
           try {
-            const tokenResponse = await this.acquireTokenSilent();
-            done(null, tokenResponse.accessToken);
+            const tokenResponse = await this.acquireToken();
+            return tokenResponse.accessToken;
           } catch (error) {
-            console.error('Failed to acquire access token:', error);
-            done(error as Error, null);
+            logger.error('Failed to acquire access token', { error });
+            throw error;
           }
         }
       });
+
+      // Same chain as the SDK default, with our ResilienceHandler in place of its RetryHandler
+      // and the audit log's GraphCallRecorder in front
+      const graph = this.config.graph;
+      this.graphClient = Client.initWithMiddleware({
+        middleware: [
+          new GraphCallRecorder(),
+          authenticationHandler,
+          new ResilienceHandler({
+            maxRetries: graph.maxRetries,
+            baseDelayMs: 1000,
+            maxDelayMs: 30_000,
+            timeoutMs: graph.timeoutSeconds * 1000,
+            breakerThreshold: graph.circuitBreakerThreshold,
+            breakerCooldownMs: graph.circuitBreakerCooldownSeconds * 1000,
+            idempotencyWindowMs: graph.idempotencyWindowSeconds * 1000
+          }),
+          new RedirectHandler(),
+          new TelemetryHandler(),
+          new HTTPMessageHandler()
+        ]
+      });
     }
     
     return this.graphClient;
   }
 
   async validateTenant(): Promise<boolean> {
-    // Validate against Cypherdyne tenant from darbot_config
+    const allowedTenantIds = this.config.access.allowedTenantIds;
+    if (allowedTenantIds.length === 0) {
+      return true; // Tenant check disabled in config
+    }
+
+    if (this.isAppOnly()) {
+      // There is no signed-in account; the token is issued for the configured tenant
+      return allowedTenantIds.includes(this.config.auth.tenantId);
+    }
+
     if (!this.currentAccount) {
-      console.error('No account available for tenant validation');
+      logger.error('No account available for tenant validation');
       return false;
     }
     
     const tenantId = this.currentAccount.tenantId;
-    const expectedTenantId = '6b104499-c49f-45dc-b3a2-df95efd6eeb4';
     
-    if (tenantId !== expectedTenantId) {
-      console.error(`Invalid tenant. Expected: ${expectedTenantId}, Got: ${tenantId}`);
+    if (!allowedTenantIds.includes(tenantId)) {
+      logger.error(`Invalid tenant. Expected one of: ${allowedTenantIds.join(', ')}, Got: ${tenantId}`);
       return false;
     }
     
-    console.log(`Tenant validation successful: ${tenantId}`);
+    logger.info(`Tenant validation successful: ${tenantId}`);
     return true;
   }
 
   async validateUser(): Promise<boolean> {
-    // Validate that the user is from the authorized domain
+    const allowedDomains = this.config.access.allowedUserDomains
+      .map(domain => domain.replace(/^@/, '').toLowerCase());
+    if (allowedDomains.length === 0) {
+      return true; // Domain check disabled in config
+    }
+
+    if (this.isAppOnly()) {
+      // Object IDs carry no domain, so only UPNs can be checked
+      const userId = this.config.auth.userId!;
+      return !userId.includes('@') || allowedDomains.includes(userId.split('@').pop()!.toLowerCase());
+    }
+
     if (!this.currentAccount) {
-      console.error('No account available for user validation');
+      logger.error('No account available for user validation');
       return false;
     }
     
     const username = this.currentAccount.username;
-    if (!username.endsWith('@timelarp.com')) {
-      console.error(`Invalid user domain. Expected @timelarp.com, Got: ${username}`);
+    const domain = username.split('@').pop()?.toLowerCase() || '';
+    if (!allowedDomains.includes(domain)) {
+      logger.error(`Invalid user domain. Expected one of: ${allowedDomains.map(d => `@${d}`).join(', ')}, Got: ${username}`);
       return false;
     }
     
-    console.log(`User validation successful: ${username}`);
+    logger.info(`User validation successful: ${username}`);
     return true;
   }
 
@@ -256,19 +447,32 @@ export class GraphAuthProvider {
         // Remove refresh token from keychain
         await keytar.deletePassword(SERVICE_NAME, this.currentAccount.username);
       } catch (error) {
-        console.warn('Failed to remove refresh token from keychain:', error);
+        logger.warn('Failed to remove refresh token from keychain', { error });
       }
       
       // Clear token cache
       try {
         await fs.unlink(TOKEN_CACHE_FILE);
       } catch (error) {
-        console.warn('Failed to remove token cache file:', error);
+        logger.warn('Failed to remove token cache file', { error });
       }
       
       this.currentAccount = null;
       this.graphClient = null;
-      console.log('Sign out completed');
+      logger.info('Sign out completed');
     }
   }
-}
\ No newline at end of file
+}
+
+function hasDisplay(): boolean {
+  // A browser opened over SSH would appear on the remote machine, not in front of the user
+  if (process.env.SSH_CONNECTION || process.env.SSH_TTY) {
+    return false;
+  }
+
+  if (process.platform === 'win32' || process.platform === 'darwin') {
+    return true;
+  }
+
+  return Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+}
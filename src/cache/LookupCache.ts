@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConnectorConfig, ConnectorConfigSchema } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('cache');
+
+export const CACHE_REGIONS = ['users', 'chats', 'teams', 'channels'] as const;
+export type CacheRegion = typeof CACHE_REGIONS[number];
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface CacheFile {
+  version: 1;
+  regions: Partial<Record<CacheRegion, Record<string, CacheEntry>>>;
+}
+
+/**
+ * TTL cache for Graph lookups that rarely change: user IDs, one-on-one and group
+ * chat IDs, joined teams and their channels. Entries live in memory and, when a
+ * file is configured, are persisted so they survive restarts.
+ */
+export class LookupCache {
+  private regions = new Map<CacheRegion, Map<string, CacheEntry>>(
+    CACHE_REGIONS.map(region => [region, new Map()])
+  );
+  private loaded: Promise<void> | undefined;
+  // Saves are chained so the file is never written by two saves at once
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private options: ConnectorConfig['cache'] = ConnectorConfigSchema.parse({}).cache) {}
+
+  /**
+   * Returns the cached value for key, or loads, caches and returns it. Failed
+   * loads and undefined results are not cached.
+   */
+  async get<T>(region: CacheRegion, key: string, load: () => Promise<T>): Promise<T> {
+    const ttlMs = this.ttlMs(region);
+    if (ttlMs === 0) {
+      return load();
+    }
+
+    await this.load();
+    const entry = this.regions.get(region)!.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+
+    const value = await load();
+    if (value !== undefined) {
+      this.set(region, key, value);
+    }
+    return value;
+  }
+
+  set(region: CacheRegion, key: string, value: unknown): void {
+    const ttlMs = this.ttlMs(region);
+    if (ttlMs === 0) {
+      return;
+    }
+    this.regions.get(region)!.set(key, { value, expiresAt: Date.now() + ttlMs });
+    this.save();
+  }
+
+  /**
+   * Drops the entries of a region, or only those matching the predicate.
+   */
+  invalidate(region: CacheRegion, matches: (key: string, value: unknown) => boolean = () => true): number {
+    const entries = this.regions.get(region)!;
+    let removed = 0;
+    for (const [key, entry] of entries) {
+      if (matches(key, entry.value)) {
+        entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Empties the given regions (all by default) and returns how many entries each held.
+   */
+  async clear(regions: readonly CacheRegion[] = CACHE_REGIONS): Promise<Record<string, number>> {
+    await this.load();
+    const cleared: Record<string, number> = {};
+    for (const region of regions) {
+      cleared[region] = this.invalidate(region);
+    }
+    await this.saving;
+    return cleared;
+  }
+
+  private ttlMs(region: CacheRegion): number {
+    return this.options.enabled ? this.options.ttlSeconds[region] * 1000 : 0;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.readFile();
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    const file = this.options.file;
+    if (!file) {
+      return;
+    }
+
+    try {
+      const content: CacheFile = JSON.parse(await fs.readFile(file, 'utf-8'));
+      const now = Date.now();
+      for (const region of CACHE_REGIONS) {
+        for (const [key, entry] of Object.entries(content.regions?.[region] || {})) {
+          if (entry.expiresAt > now) {
+            this.regions.get(region)!.set(key, entry);
+          }
+        }
+      }
+    } catch (error: any) {
+      // A missing or corrupt cache file only means starting cold
+      if (error.code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable cache file ${file}`, { error });
+      }
+    }
+  }
+
+  private save(): void {
+    const file = this.options.file;
+    if (!file) {
+      return;
+    }
+
+    this.saving = this.saving
+      .then(() => this.writeFile(file))
+      .catch(error => logger.error('Failed to write cache file', { error }));
+  }
+
+  private async writeFile(file: string): Promise<void> {
+    const now = Date.now();
+    const content: CacheFile = { version: 1, regions: {} };
+    for (const [region, entries] of this.regions) {
+      content.regions[region] = Object.fromEntries(
+        [...entries].filter(([, entry]) => entry.expiresAt > now)
+      );
+    }
+
+    // Written to a temporary file first so a crash never leaves half a file
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(content), { mode: 0o600 });
+    await fs.rename(temporary, file);
+  }
+}
@@ -0,0 +1,42 @@
+import { Client } from '@microsoft/microsoft-graph-client';
+import { createLogger } from '../logging/Logger.js';
+import { TimeZone, UTC, resolveTimeZone } from './timeZones.js';
+
+const logger = createLogger('calendar');
+
+/**
+ * The time zone set in the user's mailbox settings, which tools render times in
+ * unless a call names another zone.
+ */
+export class MailboxTimeZone {
+  // Read once from mailbox settings; stays unset while the lookup fails
+  private zone: TimeZone | undefined;
+
+  constructor(private graphClient: Client, private userPath: string) {}
+
+  async get(): Promise<TimeZone> {
+    if (!this.zone) {
+      this.zone = await this.load();
+    }
+    return this.zone ?? UTC;
+  }
+
+  private async load(): Promise<TimeZone | undefined> {
+    try {
+      const settings = await this.graphClient
+        .api(`${this.userPath}/mailboxSettings`)
+        .select('timeZone')
+        .get();
+
+      const zone = settings.timeZone ? resolveTimeZone(settings.timeZone) : undefined;
+      if (!zone) {
+        logger.warn(`Mailbox time zone "${settings.timeZone}" is not supported, using UTC`);
+        return UTC;
+      }
+      return zone;
+    } catch (error) {
+      logger.warn('Could not read mailbox time zone, using UTC', { error });
+      return undefined;
+    }
+  }
+}
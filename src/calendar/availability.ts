@@ -0,0 +1,353 @@
+import { DayOfWeek, MeetingTimeSuggestion, ScheduleInformation } from '@microsoft/microsoft-graph-types';
+import { TimeZone, getZonedParts, parseDateTime, resolveTimeZone } from './timeZones.js';
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// availabilityView digits: 0 free, 1 tentative, 2 busy, 3 out of office, 4 working elsewhere
+const VIEW_CODES: Record<string, Interval['status'] | undefined> = { '1': 'tentative', '2': 'busy', '3': 'busy' };
+
+const LUNCH = { start: '12:00', end: '13:00' };
+
+// Score penalties; a slot with every attendee free and no preference hit scores 100
+const PENALTY = {
+  requiredTentative: 15,
+  optionalBusy: 10,
+  optionalTentative: 5,
+  lunch: 20,
+  backToBack: 5
+};
+
+export type AttendeeStatus = 'free' | 'tentative' | 'busy';
+
+export interface WorkingHours {
+  // HH:mm wall-clock times in zone; an end before the start spans midnight
+  start: string;
+  end: string;
+  days: DayOfWeek[];
+  zone: TimeZone;
+}
+
+export interface SlotPreferences {
+  // HH:mm in the search zone; slots must start no earlier / end no later
+  earliestTime?: string | undefined;
+  latestTime?: string | undefined;
+  // Penalize slots overlapping 12:00-13:00 in the search zone
+  avoidLunch?: boolean | undefined;
+  // Minutes an attendee needs between an existing meeting and the new one
+  bufferMinutes?: number | undefined;
+  // Penalize slots that start or end exactly at an attendee's other meeting
+  avoidBackToBack?: boolean | undefined;
+}
+
+export interface SlotSearch {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  // Spacing between candidate start times, aligned to the wall clock in zone
+  slotMinutes: number;
+  // Zone the getSchedule request used; schedule times without their own zone are in it
+  zone: TimeZone;
+  // availabilityViewInterval of the getSchedule request
+  viewIntervalMinutes: number;
+  // For attendees whose schedule does not report working hours
+  defaultWorkingHours: Omit<WorkingHours, 'zone'>;
+  // Attendees that may miss the meeting; everyone else is required
+  optionalAttendees: string[];
+  preferences: SlotPreferences;
+  maxSlots: number;
+}
+
+export interface MeetingSlot {
+  start: Date;
+  end: Date;
+  // 0-100, higher is better
+  score: number;
+  free: string[];
+  tentative: string[];
+  // Includes attendees outside their working hours
+  busy: string[];
+  notes: string[];
+}
+
+export interface AvailabilityResult {
+  slots: MeetingSlot[];
+  // Attendees whose schedule Graph could not return; not counted either way
+  unknown: Array<{ attendee: string; reason: string }>;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+  status: Exclude<AttendeeStatus, 'free'>;
+}
+
+interface AttendeeSchedule {
+  attendee: string;
+  optional: boolean;
+  items: Interval[];
+  workingHours: WorkingHours;
+}
+
+/**
+ * Finds and scores meeting slots from a getSchedule response. Pure so it can be
+ * exercised against recorded responses.
+ *
+ * Conflicts come from scheduleItems, or from availabilityView when Graph only
+ * returns the view (e.g. limited calendar sharing). An attendee outside their
+ * own working hours, in their own time zone, counts as busy. Slots where any
+ * required attendee is busy are dropped; the rest are ranked by score.
+ */
+export function findMeetingSlots(schedules: ScheduleInformation[], search: SlotSearch): AvailabilityResult {
+  const optional = new Set(search.optionalAttendees.map(address => address.toLowerCase()));
+  const known: AttendeeSchedule[] = [];
+  const unknown: AvailabilityResult['unknown'] = [];
+
+  for (const schedule of schedules) {
+    const attendee = schedule.scheduleId || 'unknown attendee';
+    const items = getScheduleItems(schedule, search);
+    if (!items) {
+      unknown.push({ attendee, reason: schedule.error?.message || 'no schedule data returned' });
+      continue;
+    }
+    known.push({
+      attendee,
+      optional: optional.has(attendee.toLowerCase()),
+      items,
+      workingHours: getWorkingHours(schedule, search)
+    });
+  }
+
+  if (known.length === 0) {
+    return { slots: [], unknown };
+  }
+
+  const { preferences } = search;
+  const timeOfDay: WorkingHours = {
+    // An end of 00:00 means midnight at the end of the day
+    start: preferences.earliestTime ?? '00:00',
+    end: preferences.latestTime ?? '00:00',
+    days: DAYS,
+    zone: search.zone
+  };
+  const durationMs = search.durationMinutes * 60_000;
+  const slots: MeetingSlot[] = [];
+
+  for (let start = alignToSlot(search.start, search.slotMinutes, search.zone);
+    start.getTime() + durationMs <= search.end.getTime();
+    start = new Date(start.getTime() + search.slotMinutes * 60_000)) {
+    const end = new Date(start.getTime() + durationMs);
+    if ((preferences.earliestTime || preferences.latestTime) && !isWithinWorkingHours(start, end, timeOfDay)) {
+      continue;
+    }
+
+    const slot = scoreSlot(start, end, known, search);
+    if (slot) {
+      slots.push(slot);
+    }
+  }
+
+  // Best score first, then earliest
+  slots.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+  return { slots: slots.slice(0, search.maxSlots), unknown };
+}
+
+function scoreSlot(start: Date, end: Date, schedules: AttendeeSchedule[], search: SlotSearch): MeetingSlot | undefined {
+  const { preferences } = search;
+  const bufferMs = (preferences.bufferMinutes ?? 0) * 60_000;
+  const slot: MeetingSlot = { start, end, score: 100, free: [], tentative: [], busy: [], notes: [] };
+  const backToBack: string[] = [];
+
+  for (const schedule of schedules) {
+    const status = getStatus(start, end, schedule, bufferMs);
+    if (status === 'busy' && !schedule.optional) {
+      return undefined;
+    }
+
+    slot[status].push(schedule.attendee);
+    if (status === 'tentative') {
+      slot.score -= schedule.optional ? PENALTY.optionalTentative : PENALTY.requiredTentative;
+    } else if (status === 'busy') {
+      slot.score -= PENALTY.optionalBusy;
+    }
+
+    const adjacent = status !== 'busy' && schedule.items.some(item =>
+      item.end.getTime() === start.getTime() || item.start.getTime() === end.getTime());
+    if (preferences.avoidBackToBack && adjacent) {
+      backToBack.push(schedule.attendee);
+      slot.score -= PENALTY.backToBack;
+    }
+  }
+
+  if (slot.free.length === 0 && slot.tentative.length === 0) {
+    return undefined;
+  }
+
+  if (preferences.avoidLunch && overlapsLunch(start, end, search.zone)) {
+    slot.score -= PENALTY.lunch;
+    slot.notes.push('overlaps lunch');
+  }
+
+  if (backToBack.length > 0) {
+    slot.notes.push(`back-to-back for ${backToBack.join(', ')}`);
+  }
+
+  slot.score = Math.max(0, slot.score);
+  return slot;
+}
+
+function getStatus(start: Date, end: Date, schedule: AttendeeSchedule, bufferMs: number): AttendeeStatus {
+  if (!isWithinWorkingHours(start, end, schedule.workingHours)) {
+    return 'busy';
+  }
+
+  let status: AttendeeStatus = 'free';
+  for (const item of schedule.items) {
+    const overlaps = start.getTime() - bufferMs < item.end.getTime() && end.getTime() + bufferMs > item.start.getTime();
+    if (!overlaps) {
+      continue;
+    }
+    if (item.status === 'busy') {
+      return 'busy';
+    }
+    status = 'tentative';
+  }
+  return status;
+}
+
+function getScheduleItems(schedule: ScheduleInformation, search: SlotSearch): Interval[] | undefined {
+  if (schedule.scheduleItems) {
+    const items: Interval[] = [];
+    for (const item of schedule.scheduleItems) {
+      const status = item.status === 'tentative' ? 'tentative'
+        : item.status === 'busy' || item.status === 'oof' ? 'busy'
+        : undefined;
+      if (!status || !item.start?.dateTime || !item.end?.dateTime) {
+        continue;
+      }
+      items.push({
+        start: parseDateTime(item.start.dateTime, zoneOf(item.start.timeZone, search.zone)),
+        end: parseDateTime(item.end.dateTime, zoneOf(item.end.timeZone, search.zone)),
+        status
+      });
+    }
+    return items;
+  }
+
+  if (schedule.availabilityView) {
+    const intervalMs = search.viewIntervalMinutes * 60_000;
+    const items: Interval[] = [];
+    [...schedule.availabilityView].forEach((code, index) => {
+      const status = VIEW_CODES[code];
+      if (status) {
+        const start = search.start.getTime() + index * intervalMs;
+        items.push({ start: new Date(start), end: new Date(start + intervalMs), status });
+      }
+    });
+    return items;
+  }
+
+  return undefined;
+}
+
+function getWorkingHours(schedule: ScheduleInformation, search: SlotSearch): WorkingHours {
+  const hours = schedule.workingHours;
+  if (!hours?.startTime || !hours.endTime || !hours.daysOfWeek?.length) {
+    return { ...search.defaultWorkingHours, zone: search.zone };
+  }
+
+  return {
+    // Graph reports times as HH:mm:ss.fffffff
+    start: hours.startTime.slice(0, 5),
+    end: hours.endTime.slice(0, 5),
+    days: hours.daysOfWeek,
+    zone: zoneOf(hours.timeZone?.name, search.zone)
+  };
+}
+
+/**
+ * Converts findMeetingTimes suggestions into slots, using Graph's confidence as
+ * the score.
+ */
+export function fromMeetingTimeSuggestions(suggestions: MeetingTimeSuggestion[], zone: TimeZone): MeetingSlot[] {
+  return suggestions
+    .filter(suggestion => suggestion.meetingTimeSlot?.start?.dateTime && suggestion.meetingTimeSlot.end?.dateTime)
+    .map(suggestion => {
+      const { start, end } = suggestion.meetingTimeSlot!;
+      const slot: MeetingSlot = {
+        start: parseDateTime(start!.dateTime!, zoneOf(start!.timeZone, zone)),
+        end: parseDateTime(end!.dateTime!, zoneOf(end!.timeZone, zone)),
+        score: Math.round(suggestion.confidence ?? 0),
+        free: [],
+        tentative: [],
+        busy: [],
+        notes: suggestion.suggestionReason ? [suggestion.suggestionReason] : []
+      };
+
+      for (const entry of suggestion.attendeeAvailability || []) {
+        const attendee = entry.attendee?.emailAddress?.address;
+        if (!attendee) {
+          continue;
+        }
+        const status = entry.availability === 'free' || entry.availability === 'workingElsewhere' ? 'free'
+          : entry.availability === 'tentative' || entry.availability === 'unknown' ? 'tentative'
+          : 'busy';
+        slot[status].push(attendee);
+      }
+      return slot;
+    })
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+}
+
+export function isWithinWorkingHours(start: Date, end: Date, hours: WorkingHours): boolean {
+  const parts = getZonedParts(start, hours.zone);
+
+  // A window that started the previous day may span midnight into this one
+  for (const dayOffset of [0, -1]) {
+    const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + dayOffset));
+    if (!hours.days.includes(DAYS[day.getUTCDay()]!)) {
+      continue;
+    }
+
+    const windowStart = parseDateTime(`${formatDate(day)}T${hours.start}`, hours.zone);
+    let windowEnd = parseDateTime(`${formatDate(day)}T${hours.end}`, hours.zone);
+    if (windowEnd <= windowStart) {
+      const nextDay = new Date(day.getTime() + 24 * 60 * 60_000);
+      windowEnd = parseDateTime(`${formatDate(nextDay)}T${hours.end}`, hours.zone);
+    }
+
+    if (start >= windowStart && end <= windowEnd) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function overlapsLunch(start: Date, end: Date, zone: TimeZone): boolean {
+  const parts = getZonedParts(start, zone);
+  const day = formatDate(new Date(Date.UTC(parts.year, parts.month - 1, parts.day)));
+  const lunchStart = parseDateTime(`${day}T${LUNCH.start}`, zone);
+  const lunchEnd = parseDateTime(`${day}T${LUNCH.end}`, zone);
+  return start < lunchEnd && end > lunchStart;
+}
+
+// Rounds up to the next wall-clock multiple of slotMinutes (e.g. 09:10 -> 09:30)
+function alignToSlot(date: Date, slotMinutes: number, zone: TimeZone): Date {
+  const parts = getZonedParts(date, zone);
+  const minuteOfDay = parts.hour * 60 + parts.minute;
+  const remainder = minuteOfDay % slotMinutes;
+  const wholeMinute = Math.floor(date.getTime() / 60_000) * 60_000;
+
+  if (remainder === 0 && wholeMinute === date.getTime()) {
+    return date;
+  }
+  return new Date(wholeMinute + (slotMinutes - remainder) * 60_000);
+}
+
+function zoneOf(name: string | null | undefined, fallback: TimeZone): TimeZone {
+  return (name && resolveTimeZone(name)) || fallback;
+}
+
+function formatDate(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
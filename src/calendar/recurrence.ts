@@ -0,0 +1,118 @@
+import { DayOfWeek, PatternedRecurrence, WeekIndex } from '@microsoft/microsoft-graph-types';
+import { z } from 'zod';
+import { TimeZone, getZonedParts } from './timeZones.js';
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+export const RecurrenceSchema = z.object({
+  pattern: z.enum(['daily', 'weekly', 'monthly', 'yearly']).describe('How often the meeting repeats'),
+  interval: z.number().int().min(1).max(99).default(1)
+    .describe('Repeat every N days/weeks/months/years (e.g. 2 with weekly for biweekly)'),
+  daysOfWeek: z.array(z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']))
+    .min(1).optional()
+    .describe('Weekly: days the meeting occurs on (default: the start day). Monthly/yearly with weekIndex: the weekday'),
+  weekIndex: z.enum(['first', 'second', 'third', 'fourth', 'last']).optional()
+    .describe('Monthly/yearly: repeat on e.g. the "last" Friday instead of a fixed day of the month'),
+  dayOfMonth: z.number().int().min(1).max(31).optional()
+    .describe('Monthly/yearly: day of the month (default: the start day)'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional()
+    .describe('Last date the meeting can occur on (YYYY-MM-DD)'),
+  occurrences: z.number().int().min(1).max(999).optional()
+    .describe('Number of occurrences; without endDate or occurrences the series does not end')
+}).refine(recurrence => !(recurrence.endDate && recurrence.occurrences), {
+  message: 'Use either endDate or occurrences',
+  path: ['occurrences']
+}).refine(recurrence => !recurrence.weekIndex || recurrence.daysOfWeek, {
+  message: 'weekIndex requires daysOfWeek',
+  path: ['daysOfWeek']
+}).describe('Makes the meeting recurring');
+
+export type Recurrence = z.infer<typeof RecurrenceSchema>;
+
+/**
+ * Maps the recurrence input to Graph's patternedRecurrence. Defaults such as the
+ * weekday or day of month come from the first occurrence's start in zone.
+ */
+export function toPatternedRecurrence(recurrence: Recurrence, start: Date, zone: TimeZone): PatternedRecurrence {
+  const parts = getZonedParts(start, zone);
+  const startDate = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  const daysOfWeek = recurrence.daysOfWeek ?? [DAYS[parts.weekday]!];
+  const dayOfMonth = recurrence.dayOfMonth ?? parts.day;
+  const index = recurrence.weekIndex as WeekIndex | undefined;
+  const { interval } = recurrence;
+
+  const pattern = {
+    daily: { type: 'daily' as const, interval },
+    weekly: { type: 'weekly' as const, interval, daysOfWeek, firstDayOfWeek: 'monday' as const },
+    monthly: index
+      ? { type: 'relativeMonthly' as const, interval, daysOfWeek, index }
+      : { type: 'absoluteMonthly' as const, interval, dayOfMonth },
+    yearly: index
+      ? { type: 'relativeYearly' as const, interval, daysOfWeek, index, month: parts.month }
+      : { type: 'absoluteYearly' as const, interval, dayOfMonth, month: parts.month }
+  }[recurrence.pattern];
+
+  const range = recurrence.endDate
+    ? { type: 'endDate' as const, startDate, endDate: recurrence.endDate }
+    : recurrence.occurrences
+      ? { type: 'numbered' as const, startDate, numberOfOccurrences: recurrence.occurrences }
+      : { type: 'noEnd' as const, startDate };
+
+  return { pattern, range: { ...range, recurrenceTimeZone: zone.name } };
+}
+
+/**
+ * Human-readable summary, e.g. "every 2 weeks on Monday, Thursday until 2025-12-31".
+ */
+export function describeRecurrence(recurrence: PatternedRecurrence): string {
+  const { pattern, range } = recurrence;
+  if (!pattern?.type) {
+    return 'recurring';
+  }
+
+  const interval = pattern.interval ?? 1;
+  const every = (unit: string) => interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+  const days = (pattern.daysOfWeek || []).map(capitalize).join(', ');
+  const month = pattern.month ? MONTHS[pattern.month - 1] : '';
+
+  let text: string;
+  switch (pattern.type) {
+    case 'daily':
+      text = every('day');
+      break;
+    case 'weekly':
+      text = `${every('week')} on ${days}`;
+      break;
+    case 'absoluteMonthly':
+      text = `${every('month')} on day ${pattern.dayOfMonth}`;
+      break;
+    case 'relativeMonthly':
+      text = `${every('month')} on the ${pattern.index} ${days}`;
+      break;
+    case 'absoluteYearly':
+      text = `${every('year')} on ${month} ${pattern.dayOfMonth}`;
+      break;
+    case 'relativeYearly':
+      text = `${every('year')} on the ${pattern.index} ${days} of ${month}`;
+      break;
+    default:
+      text = 'recurring';
+  }
+
+  if (range?.type === 'endDate' && range.endDate) {
+    text += ` until ${range.endDate}`;
+  } else if (range?.type === 'numbered' && range.numberOfOccurrences) {
+    text += `, ${range.numberOfOccurrences} times`;
+  }
+  return text;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
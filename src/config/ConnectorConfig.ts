@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Defaults match the original MeetingAssist app registration so existing installs keep working
+const DEFAULT_CLIENT_ID = 'bedaebf0-4f7a-4c5b-8861-e082001a8193';
+const DEFAULT_TENANT_ID = '6b104499-c49f-45dc-b3a2-df95efd6eeb4';
+const DEFAULT_CONFIG_FILE = path.join(process.cwd(), 'config', 'connector.json');
+const DEFAULT_AUDIT_FILE = path.join(process.cwd(), 'logs', 'audit.jsonl');
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+const DayOfWeekSchema = z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']);
+
+export const ConnectorConfigSchema = z.object({
+  auth: z.object({
+    clientId: z.string().min(1).default(DEFAULT_CLIENT_ID),
+    tenantId: z.string().min(1).default(DEFAULT_TENANT_ID),
+    // Overrides the authority derived from tenantId (e.g. for sovereign clouds)
+    authority: z.string().url().optional(),
+    redirectPort: z.number().int().min(1).max(65535).default(3000),
+    // 'auto' uses device code login when no browser can be opened on this machine
+    mode: z.enum(['auto', 'interactive', 'deviceCode', 'appOnly']).default('auto'),
+    // App-only (client credentials) settings
+    clientSecret: z.string().min(1).optional(),
+    certificate: z.object({
+      thumbprintSha256: z.string().min(1),
+      privateKeyPath: z.string().min(1)
+    }).optional(),
+    // User (object ID or UPN) whose calendar and Teams data app-only mode acts on
+    userId: z.string().min(1).optional()
+  }).default({}),
+  access: z.object({
+    // An empty list disables the corresponding check
+    allowedTenantIds: z.array(z.string().min(1)).default([DEFAULT_TENANT_ID]),
+    allowedUserDomains: z.array(z.string().min(1)).default(['timelarp.com'])
+  }).default({}),
+  features: z.object({
+    // Reading channel messages needs ChannelMessage.Read.All, which only an admin can
+    // consent to, so sign-in asks for it only when this is on
+    channelMessages: z.boolean().default(false)
+  }).default({}),
+  logging: z.object({
+    level: LoggingLevelSchema.default('info'),
+    format: z.enum(['pretty', 'json']).default('pretty'),
+    // Log file to append to instead of stderr
+    file: z.string().min(1).optional(),
+    // Level forwarded to the MCP client until it sends logging/setLevel
+    clientLevel: LoggingLevelSchema.default('warning'),
+    // Mask emails, tokens and message bodies in log output
+    redact: z.boolean().default(true)
+  }).default({}),
+  graph: z.object({
+    maxRetries: z.number().int().min(0).max(10).default(3),
+    // Per attempt
+    timeoutSeconds: z.number().positive().default(30),
+    // Consecutive failures before Graph calls are short-circuited for the cooldown
+    circuitBreakerThreshold: z.number().int().min(1).default(5),
+    circuitBreakerCooldownSeconds: z.number().positive().default(30),
+    // Window in which a repeated send with the same idempotencyKey is answered from the first result
+    idempotencyWindowSeconds: z.number().min(0).default(300)
+  }).default({}),
+  calendar: z.object({
+    // Applied to attendees whose schedule does not report working hours
+    defaultWorkingHours: z.object({
+      start: TimeOfDaySchema.default('09:00'),
+      end: TimeOfDaySchema.default('17:00'),
+      days: z.array(DayOfWeekSchema).min(1)
+        .default(['monday', 'tuesday', 'wednesday', 'thursday', 'friday'])
+    }).default({}),
+    // Spacing between candidate meeting start times
+    slotMinutes: z.number().int().min(5).max(240).default(30)
+  }).default({}),
+  mail: z.object({
+    // Registers the mail tools and asks for the Mail.Send and Mail.ReadWrite permissions
+    enabled: z.boolean().default(true),
+    // sendMail only attaches files inside this directory; attachments are refused when unset
+    attachmentDir: z.string().min(1).optional()
+  }).default({}),
+  safety: z.object({
+    // dryRun previews write tools without executing them; confirm requires a
+    // confirmation token from the preview before executing
+    mode: z.enum(['off', 'dryRun', 'confirm']).default('off'),
+    confirmationTtlSeconds: z.number().int().min(30).max(3600).default(600)
+  }).default({}),
+  audit: z.object({
+    // Records every executed write tool call as a JSON line
+    enabled: z.boolean().default(true),
+    file: z.string().min(1).default(DEFAULT_AUDIT_FILE),
+    // Store message, meeting and comment bodies as hashes instead of text
+    hashBodies: z.boolean().default(true),
+    maxFileSizeMB: z.number().positive().default(10),
+    // Rotated files kept next to the current one
+    maxFiles: z.number().int().min(1).max(100).default(5)
+  }).default({}),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    // Persists lookups across restarts; memory only when unset
+    file: z.string().min(1).optional(),
+    // 0 turns caching off for that kind of lookup
+    ttlSeconds: z.object({
+      users: z.number().int().min(0).default(3600),
+      chats: z.number().int().min(0).default(3600),
+      teams: z.number().int().min(0).default(900),
+      channels: z.number().int().min(0).default(900)
+    }).default({})
+  }).default({}),
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(1).max(65535).default(3100),
+    // Clients must send "Authorization: Bearer <token>" when set
+    bearerToken: z.string().min(16).optional(),
+    // Browser origins allowed besides loopback ones, e.g. "https://app.example.com"
+    allowedOrigins: z.array(z.string().url()).default([]),
+    // Streamable HTTP sessions without requests for this long are closed
+    sessionIdleMinutes: z.number().positive().default(30)
+  }).default({})
+}).superRefine((config, ctx) => {
+  const { transport } = config;
+  if (transport.type === 'http' && !transport.bearerToken && !isLoopback(transport.host)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['transport', 'bearerToken'],
+      message: 'http transport on a non-loopback address requires transport.bearerToken'
+    });
+  }
+
+  if (config.auth.mode !== 'appOnly') {
+    return;
+  }
+
+  if (!config.auth.clientSecret && !config.auth.certificate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['auth', 'clientSecret'],
+      message: 'appOnly mode requires auth.clientSecret or auth.certificate'
+    });
+  }
+
+  if (!config.auth.userId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['auth', 'userId'],
+      message: 'appOnly mode requires auth.userId'
+    });
+  }
+});
+
+export type ConnectorConfig = z.infer<typeof ConnectorConfigSchema>;
+
+export function getAuthority(config: ConnectorConfig): string {
+  return config.auth.authority || `https://login.microsoftonline.com/${config.auth.tenantId}`;
+}
+
+export function getRedirectUri(config: ConnectorConfig): string {
+  return `http://localhost:${config.auth.redirectPort}/redirect`;
+}
+
+/**
+ * Loads the connector configuration from the config file (--config, MCP_TEAMS_CONFIG
+ * or ./config/connector.json), then applies MCP_TEAMS_* environment overrides and
+ * command line flags on top.
+ */
+export async function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2)
+): Promise<ConnectorConfig> {
+  const flags = parseFlags(argv);
+  const explicitConfigFile = flags.config || env.MCP_TEAMS_CONFIG;
+  const configFile = explicitConfigFile || DEFAULT_CONFIG_FILE;
+  let fileConfig: any = {};
+
+  try {
+    fileConfig = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+  } catch (error: any) {
+    // The default file is optional, an explicitly requested one is not
+    if (error.code !== 'ENOENT' || explicitConfigFile) {
+      throw new Error(`Failed to read config file ${configFile}: ${error.message}`);
+    }
+  }
+
+  const merged = {
+    ...fileConfig,
+    auth: { ...fileConfig.auth },
+    access: { ...fileConfig.access },
+    features: { ...fileConfig.features },
+    logging: { ...fileConfig.logging },
+    graph: { ...fileConfig.graph },
+    mail: { ...fileConfig.mail },
+    safety: { ...fileConfig.safety },
+    audit: { ...fileConfig.audit },
+    cache: { ...fileConfig.cache },
+    transport: { ...fileConfig.transport }
+  };
+
+  if (env.MCP_TEAMS_CLIENT_ID) merged.auth.clientId = env.MCP_TEAMS_CLIENT_ID;
+  if (env.MCP_TEAMS_TENANT_ID) merged.auth.tenantId = env.MCP_TEAMS_TENANT_ID;
+  if (env.MCP_TEAMS_AUTHORITY) merged.auth.authority = env.MCP_TEAMS_AUTHORITY;
+  if (env.MCP_TEAMS_REDIRECT_PORT) merged.auth.redirectPort = Number(env.MCP_TEAMS_REDIRECT_PORT);
+  if (env.MCP_TEAMS_AUTH_MODE) merged.auth.mode = env.MCP_TEAMS_AUTH_MODE;
+  if (env.MCP_TEAMS_CLIENT_SECRET) merged.auth.clientSecret = env.MCP_TEAMS_CLIENT_SECRET;
+  if (env.MCP_TEAMS_CERT_THUMBPRINT || env.MCP_TEAMS_CERT_KEY_PATH) {
+    merged.auth.certificate = {
+      ...merged.auth.certificate,
+      ...(env.MCP_TEAMS_CERT_THUMBPRINT && { thumbprintSha256: env.MCP_TEAMS_CERT_THUMBPRINT }),
+      ...(env.MCP_TEAMS_CERT_KEY_PATH && { privateKeyPath: env.MCP_TEAMS_CERT_KEY_PATH })
+    };
+  }
+  if (env.MCP_TEAMS_USER_ID) merged.auth.userId = env.MCP_TEAMS_USER_ID;
+  if (env.MCP_TEAMS_LOG_LEVEL) merged.logging.level = env.MCP_TEAMS_LOG_LEVEL;
+  if (env.MCP_TEAMS_LOG_FORMAT) merged.logging.format = env.MCP_TEAMS_LOG_FORMAT;
+  if (env.MCP_TEAMS_LOG_FILE) merged.logging.file = env.MCP_TEAMS_LOG_FILE;
+  if (env.MCP_TEAMS_LOG_REDACT) merged.logging.redact = env.MCP_TEAMS_LOG_REDACT !== 'false';
+  if (env.MCP_TEAMS_MAIL_ENABLED) merged.mail.enabled = env.MCP_TEAMS_MAIL_ENABLED !== 'false';
+  if (env.MCP_TEAMS_ATTACHMENT_DIR) merged.mail.attachmentDir = env.MCP_TEAMS_ATTACHMENT_DIR;
+  if (env.MCP_TEAMS_SAFETY_MODE) merged.safety.mode = env.MCP_TEAMS_SAFETY_MODE;
+  if (env.MCP_TEAMS_AUDIT_ENABLED) merged.audit.enabled = env.MCP_TEAMS_AUDIT_ENABLED !== 'false';
+  if (env.MCP_TEAMS_AUDIT_FILE) merged.audit.file = env.MCP_TEAMS_AUDIT_FILE;
+  if (env.MCP_TEAMS_CACHE_ENABLED) merged.cache.enabled = env.MCP_TEAMS_CACHE_ENABLED !== 'false';
+  if (env.MCP_TEAMS_CACHE_FILE) merged.cache.file = env.MCP_TEAMS_CACHE_FILE;
+  if (env.MCP_TEAMS_CHANNEL_MESSAGES) merged.features.channelMessages = env.MCP_TEAMS_CHANNEL_MESSAGES === 'true';
+  if (env.MCP_TEAMS_TRANSPORT) merged.transport.type = env.MCP_TEAMS_TRANSPORT;
+  if (env.MCP_TEAMS_HTTP_HOST) merged.transport.host = env.MCP_TEAMS_HTTP_HOST;
+  if (env.MCP_TEAMS_HTTP_PORT) merged.transport.port = Number(env.MCP_TEAMS_HTTP_PORT);
+  if (env.MCP_TEAMS_HTTP_TOKEN) merged.transport.bearerToken = env.MCP_TEAMS_HTTP_TOKEN;
+  if (env.MCP_TEAMS_HTTP_ORIGINS) merged.transport.allowedOrigins = parseList(env.MCP_TEAMS_HTTP_ORIGINS);
+  if (flags.transport) merged.transport.type = flags.transport;
+  if (flags.host) merged.transport.host = flags.host;
+  if (flags.port) merged.transport.port = Number(flags.port);
+  if (env.MCP_TEAMS_ALLOWED_TENANTS !== undefined) {
+    merged.access.allowedTenantIds = parseList(env.MCP_TEAMS_ALLOWED_TENANTS);
+  }
+  if (env.MCP_TEAMS_ALLOWED_DOMAINS !== undefined) {
+    merged.access.allowedUserDomains = parseList(env.MCP_TEAMS_ALLOWED_DOMAINS);
+  }
+
+  const result = ConnectorConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid connector configuration: ${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * The connector's own files (config, log, audit log and lookup cache), which tools
+ * must never read on a user's behalf, e.g. as mail attachments.
+ */
+export function getConnectorFiles(
+  config: ConnectorConfig,
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2)
+): string[] {
+  return [
+    parseFlags(argv).config || env.MCP_TEAMS_CONFIG || DEFAULT_CONFIG_FILE,
+    config.audit.file,
+    ...(config.logging.file ? [config.logging.file] : []),
+    ...(config.cache.file ? [config.cache.file] : [])
+  ].map(file => path.resolve(file));
+}
+
+/**
+ * Parses "--name value" and "--name=value" flags; "--http" is shorthand for "--transport http".
+ */
+function parseFlags(argv: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (name === 'http') {
+      flags.transport = 'http';
+    } else if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    }
+  }
+
+  return flags;
+}
+
+export function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host === '[::1]' || host.startsWith('127.');
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
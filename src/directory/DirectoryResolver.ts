@@ -0,0 +1,258 @@
+import { Client } from '@microsoft/microsoft-graph-client';
+import { collectPages } from '../graph/collectPages.js';
+import { LookupCache } from '../cache/LookupCache.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('directory');
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface Person {
+  displayName: string;
+  email: string;
+}
+
+export interface DirectoryUser extends Person {
+  id: string;
+}
+
+export interface NamedItem {
+  id: string;
+  displayName: string;
+}
+
+export interface ResolvedChannel {
+  teamId: string;
+  teamName: string;
+  channelId: string;
+  channelName: string;
+  path: string;
+}
+
+/**
+ * Thrown when a name matches more than one person, team or channel. The caller
+ * should ask which one is meant instead of picking one.
+ */
+export class AmbiguousNameError extends Error {
+  constructor(readonly query: string, readonly candidates: string[]) {
+    super(`"${query}" matches ${candidates.length} entries: ${candidates.join('; ')}. ` +
+      'Use an email address or a more specific name.');
+    this.name = 'AmbiguousNameError';
+  }
+}
+
+export function isEmail(value: string): boolean {
+  return EMAIL.test(value);
+}
+
+export function describePerson(person: Person): string {
+  return person.displayName === person.email ? person.email : `${person.displayName} <${person.email}>`;
+}
+
+/**
+ * "Team / Channel" names, as opposed to emails, chat IDs and channel paths.
+ */
+export function isChannelName(value: string): boolean {
+  return !value.startsWith('/') && value.includes('/') && !isEmail(value);
+}
+
+/**
+ * Resolves the names users say ("Jane Doe", "jane", "Engineering / Releases") to
+ * Graph identities. Email addresses and channel paths pass through unchanged.
+ */
+export class DirectoryResolver {
+  constructor(
+    private graphClient: Client,
+    private userPath: string = '/me',
+    private cache: LookupCache = new LookupCache()
+  ) {}
+
+  /**
+   * Finds a person by email, display name or part of it: first among the user's
+   * relevant people (colleagues they work with), then in the organization directory.
+   */
+  async findPerson(query: string): Promise<Person> {
+    const name = query.trim();
+    if (isEmail(name)) {
+      return { displayName: name, email: name };
+    }
+
+    return this.cache.get('users', `name:${name.toLowerCase()}`, async () => {
+      // People search also returns fuzzy hits; only fall back when none of them match.
+      // Email addresses count as names, so an alias like "jdoe" finds jdoe@contoso.com
+      const person = pickOne(await this.searchPeople(name), name, personNames, describePerson)
+        ?? pickOne(await this.searchDirectory(name), name, personNames, describePerson);
+      if (!person) {
+        throw new Error(`No person named "${name}" found`);
+      }
+
+      logger.debug(`Resolved "${name}" to ${person.email}`);
+      return person;
+    });
+  }
+
+  async findPeople(queries: string[]): Promise<Person[]> {
+    const people: Person[] = [];
+    for (const query of queries) {
+      people.push(await this.findPerson(query));
+    }
+    return people;
+  }
+
+  /**
+   * Like findPerson, but also looks up the directory object ID chats and mentions need.
+   */
+  async getUser(query: string): Promise<DirectoryUser> {
+    const person = await this.findPerson(query);
+    return this.cache.get('users', `email:${person.email.toLowerCase()}`, async () => {
+      const user = await this.graphClient
+        .api(`/users/${encodeURIComponent(person.email)}`)
+        .select('id,displayName')
+        .get();
+      return { id: user.id as string, displayName: user.displayName || person.displayName, email: person.email };
+    });
+  }
+
+  /**
+   * Resolves "Team / Channel" among the user's joined teams. Exact names win over
+   * partial ones.
+   */
+  async findChannel(query: string): Promise<ResolvedChannel> {
+    const separator = query.indexOf('/');
+    const teamQuery = query.slice(0, separator).trim();
+    const channelQuery = query.slice(separator + 1).trim();
+
+    const team = pickOne(await this.joinedTeams(), teamQuery, team => [team.displayName], team => team.displayName);
+    if (!team) {
+      throw new Error(`You are not a member of a team named "${teamQuery}"`);
+    }
+
+    const channel = pickOne(await this.channels(team.id), channelQuery, channel => [channel.displayName],
+      channel => `${team.displayName} / ${channel.displayName}`);
+    if (!channel) {
+      throw new Error(`Team "${team.displayName}" has no channel named "${channelQuery}"`);
+    }
+
+    return {
+      teamId: team.id,
+      teamName: team.displayName,
+      channelId: channel.id,
+      channelName: channel.displayName,
+      path: `/teams/${team.id}/channels/${channel.id}`
+    };
+  }
+
+  joinedTeams(): Promise<NamedItem[]> {
+    return this.cache.get('teams', this.userPath, async () => (
+      await collectPages<NamedItem>(this.graphClient, this.graphClient
+        .api(`${this.userPath}/joinedTeams`)
+        .select('id,displayName'), { maxItems: 1000 })
+    ).items);
+  }
+
+  channels(teamId: string): Promise<NamedItem[]> {
+    return this.cache.get('channels', teamId, async () => (
+      await collectPages<NamedItem>(this.graphClient, this.graphClient
+        .api(`/teams/${encodeURIComponent(teamId)}/channels`)
+        .select('id,displayName'), { maxItems: 1000 })
+    ).items);
+  }
+
+  /**
+   * The people the user works with most, most relevant first.
+   */
+  recentContacts(): Promise<Person[]> {
+    return this.cache.get('users', `recent:${this.userPath}`, async () => {
+      const response = await this.graphClient
+        .api(`${this.userPath}/people`)
+        .select('displayName,scoredEmailAddresses,personType')
+        .top(50)
+        .get();
+      return toPeople(response.value);
+    });
+  }
+
+  /**
+   * "Team / Channel" names of every channel in the user's joined teams.
+   */
+  async channelNames(): Promise<string[]> {
+    const names: string[] = [];
+    for (const team of await this.joinedTeams()) {
+      for (const channel of await this.channels(team.id)) {
+        names.push(`${team.displayName} / ${channel.displayName}`);
+      }
+    }
+    return names;
+  }
+
+  private async searchPeople(name: string): Promise<Person[]> {
+    const response = await this.graphClient
+      .api(`${this.userPath}/people`)
+      .search(`"${name.replace(/"/g, '')}"`)
+      .select('displayName,scoredEmailAddresses,personType')
+      .top(10)
+      .get();
+    return toPeople(response.value);
+  }
+
+  private async searchDirectory(name: string): Promise<Person[]> {
+    const term = name.replace(/"/g, '');
+    const response = await this.graphClient
+      .api('/users')
+      .header('ConsistencyLevel', 'eventual')
+      .search(`"displayName:${term}" OR "mail:${term}"`)
+      .select('displayName,mail,userPrincipalName')
+      .top(10)
+      .get();
+
+    return uniqueByEmail((response.value || [])
+      .filter((user: any) => user.mail || user.userPrincipalName)
+      .map((user: any) => ({
+        displayName: user.displayName || user.mail || user.userPrincipalName,
+        email: user.mail || user.userPrincipalName
+      })));
+  }
+}
+
+/**
+ * Picks the single candidate meant by query: the only exact name match, else the
+ * only partial match (every word of the query in the name, so "Jane Doe" finds
+ * "Doe, Jane"). Throws when several are equally good, and returns undefined when
+ * no name matches, even if there is a single candidate.
+ */
+function pickOne<T>(candidates: T[], query: string, namesOf: (item: T) => string[], describe: (item: T) => string): T | undefined {
+  const wanted = query.toLowerCase();
+  const names = (item: T) => namesOf(item).filter(Boolean).map(name => name.toLowerCase());
+  const exact = candidates.filter(item => names(item).some(name => name === wanted));
+  const words = wanted.split(/[\s,]+/).filter(Boolean);
+  const partial = candidates.filter(item => names(item).some(name => words.every(word => name.includes(word))));
+
+  for (const matches of [exact, partial]) {
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw new AmbiguousNameError(query, matches.map(describe));
+    }
+  }
+  return undefined;
+}
+
+function personNames(person: Person): string[] {
+  return [person.displayName, person.email];
+}
+
+// Persons (not groups or rooms) from a /people response
+function toPeople(people: any[] = []): Person[] {
+  return uniqueByEmail(people
+    .filter(person => person.personType?.class === 'Person' && person.scoredEmailAddresses?.[0]?.address)
+    .map(person => ({
+      displayName: person.displayName || person.scoredEmailAddresses[0].address,
+      email: person.scoredEmailAddresses[0].address
+    })));
+}
+
+function uniqueByEmail(people: Person[]): Person[] {
+  return [...new Map(people.map(person => [person.email.toLowerCase(), person])).values()];
+}
+
@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Context, Middleware } from '@microsoft/microsoft-graph-client';
+
+export interface GraphCall {
+  method: string;
+  // Path below the Graph version, without query string
+  url: string;
+  status?: number;
+  // Graph's request-id response header, for correlating with Microsoft support
+  requestId?: string;
+  // ID of the created or updated object, when the response has one
+  resultId?: string;
+  error?: string;
+}
+
+const recording = new AsyncLocalStorage<GraphCall[]>();
+
+/**
+ * Runs fn and appends every write request (anything but GET) it sends to Graph to calls.
+ */
+export function captureGraphCalls<T>(calls: GraphCall[], fn: () => Promise<T>): Promise<T> {
+  return recording.run(calls, fn);
+}
+
+/**
+ * Graph middleware feeding captureGraphCalls. It sits first in the chain, so it
+ * sees the final response after retries and idempotent replays.
+ */
+export class GraphCallRecorder implements Middleware {
+  private next: Middleware | undefined;
+
+  setNext(next: Middleware): void {
+    this.next = next;
+  }
+
+  async execute(context: Context): Promise<void> {
+    const calls = recording.getStore();
+    const method = (context.options?.method || 'GET').toUpperCase();
+    if (!calls || method === 'GET') {
+      await this.next!.execute(context);
+      return;
+    }
+
+    const call: GraphCall = { method, url: graphPath(context.request) };
+    calls.push(call);
+    try {
+      await this.next!.execute(context);
+    } catch (error: any) {
+      call.error = error?.message || String(error);
+      throw error;
+    }
+
+    const response = context.response!;
+    call.status = response.status;
+    const requestId = response.headers.get('request-id');
+    if (requestId) {
+      call.requestId = requestId;
+    }
+
+    if (response.ok && response.headers.get('content-type')?.includes('json')) {
+      const body = await response.clone().json().catch(() => undefined);
+      if (typeof body?.id === 'string') {
+        call.resultId = body.id;
+      }
+    }
+  }
+}
+
+function graphPath(request: RequestInfo): string {
+  const url = new URL(typeof request === 'string' ? request : request.url);
+  return url.pathname.replace(/^\/(v1\.0|beta)/, '');
+}
@@ -0,0 +1,274 @@
+import { Context, Middleware, MiddlewareOptions } from '@microsoft/microsoft-graph-client';
+import { createHash } from 'crypto';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('graph');
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([429, 503, 504]);
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per attempt, not per logical request
+  timeoutMs: number;
+  // Consecutive failed attempts that open the circuit
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  // How long a completed keyed request is replayed instead of re-sent
+  idempotencyWindowMs: number;
+}
+
+/**
+ * Marks a non-idempotent request (chat message, event) with a client-side key.
+ * A repeated request with the same key inside the idempotency window gets the
+ * recorded response instead of being sent again.
+ */
+export class IdempotencyKeyOption implements MiddlewareOptions {
+  constructor(readonly key: string) {}
+}
+
+/**
+ * Middleware options for a send with the caller's idempotency key. Without one the
+ * request is never deduplicated: repeating a send on purpose must send it again.
+ */
+export function idempotencyOptions(key: string | undefined): MiddlewareOptions[] {
+  return key ? [new IdempotencyKeyOption(key)] : [];
+}
+
+export class CircuitOpenError extends Error {
+  constructor(retryAfterMs: number) {
+    super(`Microsoft Graph is unavailable after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface RecordedResponse {
+  // Method, URL and body of the request the key was first used for
+  fingerprint: string;
+  status: number;
+  headers: [string, string][];
+  body: string;
+  expiresAt: number;
+}
+
+/**
+ * Graph middleware that retries throttled and transiently failed requests, bounds
+ * each attempt with a timeout and stops calling Graph while it is failing.
+ *
+ * Non-idempotent requests (POST, PATCH) are only retried on 429, or 503 with
+ * Retry-After, where Graph rejected the request without processing it. Timeouts
+ * and gateway errors are ambiguous for them, so they are surfaced instead of
+ * risking a duplicate post.
+ */
+export class ResilienceHandler implements Middleware {
+  private next: Middleware | undefined;
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private recorded = new Map<string, RecordedResponse>();
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor(private options: ResilienceOptions) {}
+
+  setNext(next: Middleware): void {
+    this.next = next;
+  }
+
+  async execute(context: Context): Promise<void> {
+    if (!this.next) {
+      throw new Error('ResilienceHandler requires a next middleware');
+    }
+
+    const key = this.getIdempotencyKey(context);
+    if (!key) {
+      await this.send(context);
+      return;
+    }
+
+    // A concurrent duplicate waits for the first request and then replays its result
+    const fingerprint = fingerprintRequest(context);
+    while (this.inFlight.has(key)) {
+      await this.inFlight.get(key)!.catch(() => undefined);
+    }
+    if (this.replay(key, fingerprint, context)) {
+      return;
+    }
+
+    const pending = this.send(context, key, fingerprint);
+    this.inFlight.set(key, pending);
+    try {
+      await pending;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async send(context: Context, key?: string, fingerprint?: string): Promise<void> {
+    const now = Date.now();
+    if (now < this.openUntil) {
+      throw new CircuitOpenError(this.openUntil - now);
+    }
+
+    const method = (context.options?.method || 'GET').toUpperCase();
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.options.maxRetries;
+
+      try {
+        await this.executeWithTimeout(context);
+      } catch (error) {
+        this.recordFailure();
+        if (!idempotent || !canRetry || Date.now() < this.openUntil) {
+          throw error;
+        }
+
+        const delay = this.backoff(attempt);
+        logger.warn(`Graph ${method} failed, retrying in ${delay}ms`, { error, attempt: attempt + 1 });
+        await sleep(delay);
+        continue;
+      }
+
+      const response = context.response!;
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+
+      if (response.status >= 500) {
+        this.recordFailure();
+      } else {
+        this.consecutiveFailures = 0;
+      }
+
+      const retryable = RETRYABLE_STATUSES.has(response.status) && (
+        idempotent ||
+        response.status === 429 ||
+        (response.status === 503 && retryAfterMs !== undefined)
+      );
+
+      if (!retryable || !canRetry || Date.now() < this.openUntil) {
+        if (key && fingerprint && response.ok) {
+          await this.record(key, fingerprint, context);
+        }
+        return;
+      }
+
+      const delay = retryAfterMs ?? this.backoff(attempt);
+      logger.warn(`Graph ${method} returned ${response.status}, retrying in ${delay}ms`, {
+        attempt: attempt + 1,
+        requestId: response.headers.get('request-id')
+      });
+      await sleep(delay);
+    }
+  }
+
+  private async executeWithTimeout(context: Context): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    context.options = { ...context.options, signal: controller.signal };
+    try {
+      await this.next!.execute(context);
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        throw new Error(`Microsoft Graph request timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.options.breakerThreshold) {
+      // Half-open after the cooldown: the next failure re-opens the circuit immediately
+      this.openUntil = Date.now() + this.options.breakerCooldownMs;
+      logger.error(`Opening Graph circuit breaker for ${this.options.breakerCooldownMs}ms`, {
+        consecutiveFailures: this.consecutiveFailures
+      });
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    // Equal jitter: keep half the delay, randomize the other half
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private getIdempotencyKey(context: Context): string | undefined {
+    const option = context.middlewareControl?.getMiddlewareOptions(IdempotencyKeyOption) as
+      IdempotencyKeyOption | undefined;
+    return option?.key;
+  }
+
+  private replay(key: string, fingerprint: string, context: Context): boolean {
+    const recorded = this.recorded.get(key);
+    if (!recorded || recorded.expiresAt < Date.now()) {
+      this.recorded.delete(key);
+      return false;
+    }
+
+    // Replaying another request's result would report a send that never happened
+    if (recorded.fingerprint !== fingerprint) {
+      throw new Error(`Idempotency key ${key} was already used for a different request; use a new key for this one`);
+    }
+
+    logger.info('Replaying recorded response for repeated request instead of sending it again', { key });
+    context.response = new Response(recorded.body, {
+      status: recorded.status,
+      headers: recorded.headers
+    });
+    return true;
+  }
+
+  private async record(key: string, fingerprint: string, context: Context): Promise<void> {
+    const response = context.response!;
+    const now = Date.now();
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+
+    for (const [recordedKey, entry] of this.recorded) {
+      if (entry.expiresAt < now) {
+        this.recorded.delete(recordedKey);
+      }
+    }
+
+    this.recorded.set(key, {
+      fingerprint,
+      status: response.status,
+      headers,
+      body: await response.clone().text(),
+      expiresAt: now + this.options.idempotencyWindowMs
+    });
+  }
+}
+
+function fingerprintRequest(context: Context): string {
+  const url = typeof context.request === 'string' ? context.request : context.request.url;
+  const body = context.options?.body;
+  return createHash('sha256')
+    .update((context.options?.method || 'GET').toUpperCase())
+    .update(' ')
+    .update(url)
+    .update(' ')
+    .update(typeof body === 'string' ? body : body === undefined || body === null ? '' : JSON.stringify(body))
+    .digest('hex');
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
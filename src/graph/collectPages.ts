@@ -0,0 +1,134 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Client, GraphRequest, PageCollection, PageIterator } from '@microsoft/microsoft-graph-client';
+
+const GRAPH_ORIGIN = 'https://graph.microsoft.com/';
+
+// Cursors are signed so a caller cannot point one at another Graph URL; they do not outlive the process
+const CURSOR_KEY = randomBytes(32);
+
+export interface PageOptions<T> {
+  // Maximum number of (matching) items to return in this call
+  maxItems: number;
+  // Cursor returned by a previous call with the same request
+  cursor?: string | undefined;
+  // Local filter for conditions Graph cannot evaluate; only matches count towards maxItems
+  filter?: (item: T) => boolean;
+  // Headers the original request sends, repeated on every follow-up page
+  headers?: Record<string, string>;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  // Set when more items are available
+  nextCursor?: string;
+}
+
+interface CursorState {
+  // Page to resume from; null means the first page of the original request
+  url: string | null;
+  // Items of that page already consumed
+  skip: number;
+}
+
+/**
+ * Collects items across @odata.nextLink pages with the Graph PageIterator, stopping
+ * after maxItems. The returned cursor records the exact page and offset where the
+ * next item starts, so repeating the call with the same request and the cursor
+ * continues deterministically. Cursors are signed, and ones this process did not
+ * issue are rejected.
+ */
+export async function collectPages<T = any>(
+  client: Client,
+  request: GraphRequest,
+  options: PageOptions<T>
+): Promise<PageResult<T>> {
+  const start = options.cursor ? decodeCursor(options.cursor) : { url: null, skip: 0 };
+  const headers = options.headers || {};
+  const firstPage: PageCollection = start.url
+    ? await client.api(start.url).headers(headers).get()
+    : await request.headers(headers).get();
+
+  // Track which page each item comes from by observing the iterator's nextLink requests
+  let fetchedUrl = start.url;
+  const trackingClient = {
+    api: (url: string) => {
+      fetchedUrl = url;
+      return client.api(url);
+    }
+  } as unknown as Client;
+
+  const items: T[] = [];
+  let pageUrl = start.url;
+  let index = 0;
+  let toSkip = start.skip;
+  let nextCursor: string | undefined;
+
+  const iterator = new PageIterator(trackingClient, firstPage, (item: T) => {
+    if (fetchedUrl !== pageUrl) {
+      pageUrl = fetchedUrl;
+      index = 0;
+    }
+
+    const position = index++;
+    if (toSkip > 0) {
+      toSkip--;
+      return true;
+    }
+
+    if (options.filter && !options.filter(item)) {
+      return true;
+    }
+
+    if (items.length === options.maxItems) {
+      // One more match exists: resume from this item next time
+      nextCursor = encodeCursor({ url: pageUrl, skip: position });
+      return false;
+    }
+
+    items.push(item);
+    return true;
+  }, { headers });
+
+  await iterator.iterate();
+
+  return nextCursor ? { items, nextCursor } : { items };
+}
+
+export function formatCursorHint(cursor: string | undefined): string {
+  return cursor
+    ? `\n\nMore results available. Call again with the same arguments and cursor: ${cursor}`
+    : '';
+}
+
+function encodeCursor(state: CursorState): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${signCursor(payload).toString('base64url')}`;
+}
+
+function decodeCursor(cursor: string): CursorState {
+  const [payload = '', signature = ''] = cursor.split('.');
+  const expected = signCursor(payload);
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new Error('Invalid or expired cursor; repeat the call without it to start over');
+  }
+
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  // The URL is fetched with the user's token, so it must point at Graph
+  const validUrl = state.url === null || (typeof state.url === 'string' && state.url.startsWith(GRAPH_ORIGIN));
+  if (!validUrl || !Number.isInteger(state.skip) || state.skip < 0) {
+    throw new Error('Invalid cursor');
+  }
+
+  return state;
+}
+
+function signCursor(payload: string): Buffer {
+  return createHmac('sha256', CURSOR_KEY).update(payload).digest();
+}
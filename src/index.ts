@@ -3,271 +3,294 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  Tool,
-  CallToolResult,
-  ListToolsResult,
-  TextContent
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  CallToolResult
 } from '@modelcontextprotocol/sdk/types.js';
-import { GraphAuthProvider } from './auth/GraphAuthProvider.js';
-import { CalendarTools } from './tools/CalendarTools.js';
-import { TeamsTools } from './tools/TeamsTools.js';
+import { z } from 'zod';
+import { CACHE_DIR, GraphAuthProvider } from './auth/GraphAuthProvider.js';
+import { ConnectorConfig, getConnectorFiles, loadConfig } from './config/ConnectorConfig.js';
+import { attachMcpLogging, configureLogging, createLogger } from './logging/Logger.js';
+import { CalendarTools, registerCalendarTools } from './tools/CalendarTools.js';
+import { TeamsTools, registerTeamsTools } from './tools/TeamsTools.js';
+import { MailTools, registerMailTools } from './tools/MailTools.js';
+import { registerAuditTools } from './tools/AuditTools.js';
+import { registerCacheTools } from './tools/CacheTools.js';
+import { AuditLog } from './audit/AuditLog.js';
+import { ToolRegistry, ToolServices, errorResult } from './tools/ToolRegistry.js';
+import { HttpTransportServer } from './transport/HttpTransportServer.js';
+import { ResourceRegistry } from './resources/ResourceRegistry.js';
+import { registerTeamsResources } from './resources/teamsResources.js';
+import { registerCalendarResources } from './resources/calendarResources.js';
+import { PromptRegistry } from './prompts/PromptRegistry.js';
+import { registerWorkflowPrompts } from './prompts/workflowPrompts.js';
+import { DirectoryResolver } from './directory/DirectoryResolver.js';
+import { MailboxTimeZone } from './calendar/MailboxTimeZone.js';
+import { LookupCache } from './cache/LookupCache.js';
+
+const logger = createLogger('server');
 
 class MCPTeamsServer {
-  private server: Server;
+  // One MCP server per connected client session; stdio has exactly one
+  private servers = new Set<Server>();
+  private httpServer: HttpTransportServer | null = null;
   private authProvider: GraphAuthProvider;
   private calendarTools: CalendarTools | null = null;
   private teamsTools: TeamsTools | null = null;
+  private mailTools: MailTools | null = null;
+  private directory: DirectoryResolver | null = null;
+  private registry: ToolRegistry;
+  private resources = new ResourceRegistry();
+  private prompts = new PromptRegistry();
+  private auditLog: AuditLog | undefined;
+  private cache: LookupCache;
+  private services: ToolServices;
+
+  constructor(private config: ConnectorConfig) {
+    const self = this;
+    if (config.audit.enabled) {
+      this.auditLog = new AuditLog(config.audit, () => this.authProvider.getIdentityLabel());
+    }
+    this.cache = new LookupCache(config.cache);
+    this.registry = new ToolRegistry(config.safety, this.auditLog);
+    this.services = {
+      get calendar() { return self.requireInitialized(self.calendarTools); },
+      get teams() { return self.requireInitialized(self.teamsTools); },
+      get mail() { return self.requireInitialized(self.mailTools); },
+      get directory() { return self.requireInitialized(self.directory); }
+    };
+    this.registerTools();
+    registerCalendarResources(this.resources);
+    registerTeamsResources(this.resources, config.features);
+    registerWorkflowPrompts(this.prompts);
+
+    this.authProvider = new GraphAuthProvider(config);
+    this.authProvider.onDeviceCode = (prompt) => {
+      // Surface the sign-in instructions to every MCP client as well as stderr
+      for (const server of this.servers) {
+        server.sendLoggingMessage({
+          level: 'warning',
+          logger: 'auth',
+          data: prompt.message
+        }).catch(() => {
+          // Client may not be connected yet; getAuthStatus still reports the prompt
+        });
+      }
+    };
+  }
 
-  constructor() {
-    this.authProvider = new GraphAuthProvider();
-    this.server = new Server({
+  private createServer(): Server {
+    const server = new Server({
       name: 'mcp-teams-connector',
       version: '1.0.0',
       description: 'MCP connector for Microsoft Teams and Outlook integration'
     }, {
       capabilities: {
-        tools: {}
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {}
       }
     });
 
-    this.setupHandlers();
+    attachMcpLogging(server);
+    this.setupHandlers(server);
+
+    this.servers.add(server);
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.servers.delete(server);
+      previousOnClose?.();
+    };
+
+    return server;
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // Tools call handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
-      if (!this.calendarTools || !this.teamsTools) {
-        return {
-          content: [{
-            type: 'text',
-            text: 'Server not properly initialized. Please restart the MCP server.'
-          }],
-          isError: true
-        };
+      if (this.authProvider.isAppOnly() && this.registry.get(name)?.delegatedOnly) {
+        return errorResult(
+          `${name} is not available in app-only mode: Microsoft Graph requires delegated (signed-in user) permissions for it.`
+        );
       }
 
-      try {
-        switch (name) {
-          case 'createMeeting':
-            return await this.calendarTools.createMeeting(args as any);
-          
-          case 'findAvailability':
-            return await this.calendarTools.findAvailability(args as any);
-          
-          case 'listUpcomingMeetings':
-            return await this.calendarTools.listUpcomingMeetings(args as any);
-          
-          case 'sendTeamsMessage':
-            return await this.teamsTools.sendTeamsMessage(args as any);
-          
-          case 'listTeams':
-            return await this.teamsTools.listTeams();
-          
-          default:
-            return {
-              content: [{
-                type: 'text',
-                text: `Unknown tool: ${name}`
-              }],
-              isError: true
-            };
-        }
-      } catch (error) {
-        console.error(`Error executing tool ${name}:`, error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
-      }
+      return await this.registry.call(name, args, this.services);
     });
 
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'createMeeting',
-            description: 'Creates a new meeting in Microsoft Teams or Outlook calendar',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                subject: { 
-                  type: 'string', 
-                  description: 'Meeting title' 
-                },
-                startTime: { 
-                  type: 'string', 
-                  description: 'ISO format start time (e.g., 2025-07-11T14:00:00Z)' 
-                },
-                endTime: { 
-                  type: 'string', 
-                  description: 'ISO format end time (e.g., 2025-07-11T15:00:00Z)' 
-                },
-                attendees: { 
-                  type: 'array', 
-                  items: { type: 'string' },
-                  description: 'Email addresses of attendees'
-                },
-                body: { 
-                  type: 'string', 
-                  description: 'Meeting description or agenda' 
-                },
-                location: { 
-                  type: 'string', 
-                  description: 'Meeting location (room, address, or virtual)' 
-                },
-                isOnline: { 
-                  type: 'boolean', 
-                  description: 'Create as Teams online meeting',
-                  default: true
-                }
-              },
-              required: ['subject', 'startTime', 'endTime']
-            }
-          },
-          {
-            name: 'findAvailability',
-            description: 'Check availability for multiple attendees and suggest meeting times',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                attendees: { 
-                  type: 'array', 
-                  items: { type: 'string' },
-                  description: 'Email addresses to check availability for'
-                },
-                startDate: { 
-                  type: 'string', 
-                  description: 'Start date for availability search (ISO format)'
-                },
-                endDate: { 
-                  type: 'string', 
-                  description: 'End date for availability search (ISO format)'
-                },
-                duration: { 
-                  type: 'number', 
-                  description: 'Meeting duration in minutes'
-                }
-              },
-              required: ['attendees', 'startDate', 'endDate', 'duration']
-            }
-          },
-          {
-            name: 'listUpcomingMeetings',
-            description: 'Get upcoming meetings from calendar',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                days: { 
-                  type: 'number', 
-                  default: 7,
-                  description: 'Number of days to look ahead'
-                },
-                includeDetails: { 
-                  type: 'boolean', 
-                  default: false,
-                  description: 'Include detailed meeting information'
-                }
-              }
-            }
-          },
-          {
-            name: 'sendTeamsMessage',
-            description: 'Send a message to a Teams channel or chat',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                recipient: { 
-                  type: 'string', 
-                  description: 'Email address for chat or channel path for channel messages'
-                },
-                message: { 
-                  type: 'string', 
-                  description: 'Message content to send'
-                },
-                messageType: { 
-                  type: 'string', 
-                  enum: ['chat', 'channel'],
-                  description: 'Type of message (chat for direct message, channel for channel message)',
-                  default: 'chat'
-                }
-              },
-              required: ['recipient', 'message']
-            }
-          },
-          {
-            name: 'listTeams',
-            description: 'List all Teams that the user is a member of',
-            inputSchema: {
-              type: 'object',
-              properties: {}
-            }
-          }
-        ]
+        tools: this.registry.list(tool => !(this.authProvider.isAppOnly() && tool.delegatedOnly))
       };
     });
 
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await this.resources.list(this.services) };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resources.templates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await this.resources.read(request.params.uri, this.services);
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.prompts.list() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.prompts.get(request.params.name, request.params.arguments);
+    });
+
+    // Prompt arguments complete from teams, channels and recent contacts
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      if (ref.type !== 'ref/prompt') {
+        return { completion: { values: [] } };
+      }
+      return { completion: await this.prompts.complete(ref.name, argument.name, argument.value, this.services) };
+    });
+
     // Server initialization is handled automatically by the MCP SDK
   }
 
+  private registerTools() {
+    registerCalendarTools(this.registry);
+    registerTeamsTools(this.registry, this.config.features);
+    if (this.config.mail.enabled) {
+      registerMailTools(this.registry);
+    }
+    if (this.auditLog) {
+      registerAuditTools(this.registry, this.auditLog);
+    }
+    registerCacheTools(this.registry, this.cache);
+
+    this.registry.register({
+      name: 'getAuthStatus',
+      description: 'Show the signed-in account, or the device code sign-in instructions while authentication is pending',
+      inputSchema: z.object({}),
+      handler: async () => this.getAuthStatus()
+    });
+  }
+
+  /**
+   * Returns a tool implementation, or throws with sign-in instructions while
+   * authentication is still pending.
+   */
+  private requireInitialized<T>(tools: T | null): T {
+    if (!tools) {
+      const deviceCode = this.authProvider.getPendingDeviceCode();
+      throw new Error(deviceCode
+        ? `Authentication required. ${deviceCode.message}`
+        : 'Server not properly initialized. Please restart the MCP server.');
+    }
+    return tools;
+  }
+
+  private getAuthStatus(): CallToolResult {
+    const deviceCode = this.authProvider.getPendingDeviceCode();
+    if (deviceCode) {
+      return {
+        content: [{
+          type: 'text',
+          text: [
+            'Waiting for device code sign-in.',
+            `Visit: ${deviceCode.verificationUri}`,
+            `Code: ${deviceCode.userCode}`,
+            `Expires: ${deviceCode.expiresAt.toISOString()}`
+          ].join('\n')
+        }]
+      };
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: this.calendarTools
+          ? `Authenticated as: ${this.authProvider.getIdentityLabel()}`
+          : 'Authentication in progress.'
+      }]
+    };
+  }
+
   async start() {
     try {
-      // Authenticate before starting server
-      console.log('MCP Teams Connector starting...');
-      console.log('Authenticating with Microsoft Graph...');
+      logger.info('MCP Teams Connector starting...');
+
+      // Connect first so device code instructions can reach clients while we authenticate
+      if (this.config.transport.type === 'http') {
+        this.httpServer = new HttpTransportServer(this.config.transport, () => this.createServer());
+        await this.httpServer.start();
+      } else {
+        const transport = new StdioServerTransport();
+        await this.createServer().connect(transport);
+      }
+
+      logger.info(`Authenticating with Microsoft Graph (${this.authProvider.resolveAuthMode()} login)...`);
       
       await this.authProvider.authenticate();
       
       // Validate tenant and user
       const isValidTenant = await this.authProvider.validateTenant();
       if (!isValidTenant) {
-        throw new Error('Invalid tenant. This connector is configured for Cypherdyne tenant only.');
+        throw new Error(
+          `Invalid tenant. This connector is configured for tenant(s): ${this.config.access.allowedTenantIds.join(', ')}`
+        );
       }
 
       const isValidUser = await this.authProvider.validateUser();
       if (!isValidUser) {
-        throw new Error('Invalid user. This connector is configured for @timelarp.com users only.');
+        const domains = this.config.access.allowedUserDomains.map(domain => `@${domain.replace(/^@/, '')}`);
+        throw new Error(`Invalid user. This connector is configured for ${domains.join(', ')} users only.`);
       }
 
       // Initialize tools with authenticated Graph client
       const graphClient = await this.authProvider.getGraphClient();
-      this.calendarTools = new CalendarTools(graphClient);
-      this.teamsTools = new TeamsTools(graphClient);
-
-      console.log('Authentication successful!');
-      console.log(`Authenticated as: ${this.authProvider.getCurrentUser()?.username}`);
+      const userPath = this.authProvider.getUserPath();
+      this.directory = new DirectoryResolver(graphClient, userPath, this.cache);
+      const mailboxZone = new MailboxTimeZone(graphClient, userPath);
+      this.calendarTools = new CalendarTools(graphClient, userPath, this.config.calendar, this.directory, mailboxZone);
+      this.teamsTools = new TeamsTools(graphClient, userPath, this.cache, this.directory, mailboxZone);
+      this.mailTools = new MailTools(graphClient, userPath, this.config.mail,
+        [...getConnectorFiles(this.config), CACHE_DIR]);
 
-      // Start MCP server
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      
-      console.log('MCP Teams Connector is running and ready to accept requests...');
+      logger.info('Authentication successful!');
+      logger.info(`Authenticated as: ${this.authProvider.getIdentityLabel()}`);
+      if (this.config.safety.mode !== 'off') {
+        logger.info(`Write tools run in ${this.config.safety.mode} mode`);
+      }
+      logger.info('MCP Teams Connector is running and ready to accept requests...');
       
     } catch (error) {
-      console.error('Failed to start MCP Teams Connector:', error);
+      logger.error('Failed to start MCP Teams Connector', { error });
       process.exit(1);
     }
   }
 
   async stop() {
     try {
-      console.log('Shutting down MCP Teams Connector...');
+      logger.info('Shutting down MCP Teams Connector...');
+      await this.httpServer?.stop();
       await this.authProvider.signOut();
-      console.log('MCP Teams Connector stopped.');
+      logger.info('MCP Teams Connector stopped.');
     } catch (error) {
-      console.error('Error during shutdown:', error);
+      logger.error('Error during shutdown', { error });
     }
   }
 }
 
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\nReceived SIGINT, shutting down gracefully...');
+  logger.info('Received SIGINT, shutting down gracefully...');
   if (server) {
     await server.stop();
   }
@@ -275,7 +298,7 @@ process.on('SIGINT', async () => {
 });
 
 process.on('SIGTERM', async () => {
-  console.log('\nReceived SIGTERM, shutting down gracefully...');
+  logger.info('Received SIGTERM, shutting down gracefully...');
   if (server) {
     await server.stop();
   }
@@ -283,8 +306,14 @@ process.on('SIGTERM', async () => {
 });
 
 // Start the server
-const server = new MCPTeamsServer();
-server.start().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
\ No newline at end of file
+let server: MCPTeamsServer | null = null;
+loadConfig()
+  .then((config) => {
+    configureLogging(config.logging);
+    server = new MCPTeamsServer(config);
+    return server.start();
+  })
+  .catch((error) => {
+    logger.error('Failed to start server', { error });
+    process.exit(1);
+  });
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+
+// Ordered by severity, matching the MCP logging levels
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]{16,}=*/gi;
+const SENSITIVE_KEYS = /token|secret|password|authorization|privatekey/i;
+const CONTENT_KEYS = /^(body|message|content|comment)$/i;
+
+type LoggingConfig = ConnectorConfig['logging'];
+
+export interface LogRecord {
+  time: string;
+  level: LoggingLevel;
+  module: string;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+class LogManager {
+  private config: LoggingConfig = {
+    level: 'info',
+    format: 'pretty',
+    clientLevel: 'warning',
+    redact: true
+  };
+  private fileStream: fs.WriteStream | null = null;
+  // Attached MCP sessions and the level each client asked for
+  private servers = new Map<Server, LoggingLevel>();
+
+  configure(config: LoggingConfig): void {
+    this.config = { ...config };
+    this.fileStream?.end();
+    this.fileStream = config.file
+      ? fs.createWriteStream(config.file, { flags: 'a' })
+      : null;
+  }
+
+  /**
+   * Forwards log records to the MCP client as notifications/message and lets the
+   * client adjust the forwarded level with logging/setLevel.
+   */
+  attachServer(server: Server): void {
+    this.servers.set(server, this.config.clientLevel);
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.servers.set(server, request.params.level);
+      return {};
+    });
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.servers.delete(server);
+      previousOnClose?.();
+    };
+  }
+
+  write(level: LoggingLevel, module: string, message: string, context?: Record<string, unknown>): void {
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      module,
+      message: this.config.redact ? redactString(message) : message
+    };
+
+    if (context) {
+      record.context = this.config.redact
+        ? redactValue(serializeContext(context)) as Record<string, unknown>
+        : serializeContext(context);
+    }
+
+    if (isEnabled(level, this.config.level)) {
+      const line = this.config.format === 'json' ? JSON.stringify(record) : formatPretty(record);
+      // Never stdout: with the stdio transport it carries the JSON-RPC stream
+      if (this.fileStream) {
+        this.fileStream.write(line + '\n');
+      } else {
+        process.stderr.write(line + '\n');
+      }
+    }
+
+    for (const [server, clientLevel] of this.servers) {
+      if (!isEnabled(level, clientLevel)) {
+        continue;
+      }
+
+      server.sendLoggingMessage({
+        level,
+        logger: module,
+        data: record.context ? { message: record.message, ...record.context } : record.message
+      }).catch(() => {
+        // Not connected yet or the client went away; stderr/file output still has the record
+      });
+    }
+  }
+}
+
+const manager = new LogManager();
+
+export class Logger {
+  constructor(private module: string) {}
+
+  debug(message: string, context?: Record<string, unknown>): void {
+    manager.write('debug', this.module, message, context);
+  }
+
+  info(message: string, context?: Record<string, unknown>): void {
+    manager.write('info', this.module, message, context);
+  }
+
+  warn(message: string, context?: Record<string, unknown>): void {
+    manager.write('warning', this.module, message, context);
+  }
+
+  error(message: string, context?: Record<string, unknown>): void {
+    manager.write('error', this.module, message, context);
+  }
+}
+
+export function createLogger(module: string): Logger {
+  return new Logger(module);
+}
+
+export function configureLogging(config: LoggingConfig): void {
+  manager.configure(config);
+}
+
+export function attachMcpLogging(server: Server): void {
+  manager.attachServer(server);
+}
+
+function isEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+function serializeContext(context: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(context)) {
+    // Errors become plain strings so they survive JSON output
+    result[key] = value instanceof Error ? `${value.name}: ${value.message}` : value;
+  }
+  return result;
+}
+
+export function redactString(value: string): string {
+  return value
+    .replace(JWT_PATTERN, '[token]')
+    .replace(BEARER_PATTERN, 'Bearer [token]')
+    .replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+export function redactValue(value: unknown, key = ''): unknown {
+  if (typeof value === 'string') {
+    if (SENSITIVE_KEYS.test(key)) {
+      return '[redacted]';
+    }
+    if (CONTENT_KEYS.test(key)) {
+      return `[redacted ${value.length} chars]`;
+    }
+    return redactString(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, key));
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [childKey, child] of Object.entries(value)) {
+      result[childKey] = redactValue(child, childKey);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function formatPretty(record: LogRecord): string {
+  const context = record.context ? ` ${JSON.stringify(record.context)}` : '';
+  return `${record.time} ${record.level.toUpperCase().padEnd(7)} [${record.module}] ${record.message}${context}`;
+}
@@ -0,0 +1,116 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolServices } from '../tools/ToolRegistry.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('prompts');
+
+// completion/complete returns at most 100 values
+const MAX_COMPLETIONS = 100;
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+  // Candidate values for completion/complete
+  complete?: (services: ToolServices) => Promise<string[]>;
+  // Comma-separated list; completion applies to the last item
+  list?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  // Text of the user message that starts the workflow
+  render: (args: Record<string, string | undefined>) => string;
+}
+
+/**
+ * MCP prompts: ready-made instructions that walk the model through a workflow
+ * using the connector's tools.
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  register(prompt: PromptDefinition): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt ${prompt.name} is already registered`);
+    }
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  list(): Prompt[] {
+    return [...this.prompts.values()].map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments.map(argument => ({
+        name: argument.name,
+        description: argument.description,
+        required: argument.required ?? false
+      }))
+    }));
+  }
+
+  get(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const values: Record<string, string | undefined> = {};
+    for (const argument of prompt.arguments) {
+      const value = args[argument.name]?.trim();
+      if (!value && argument.required) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} requires the ${argument.name} argument`);
+      }
+      values[argument.name] = value || undefined;
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: prompt.render(values) }
+      }]
+    };
+  }
+
+  /**
+   * Values for a prompt argument that contain what was typed so far, prefix
+   * matches first. Returns nothing when the lookup fails, e.g. before sign-in.
+   */
+  async complete(
+    name: string,
+    argumentName: string,
+    value: string,
+    services: ToolServices
+  ): Promise<{ values: string[]; total: number; hasMore: boolean }> {
+    const argument = this.prompts.get(name)?.arguments.find(candidate => candidate.name === argumentName);
+    if (!argument?.complete) {
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    // For lists, complete the item being typed and keep the ones before it
+    const separator = argument.list ? value.lastIndexOf(',') : -1;
+    const head = separator >= 0 ? `${value.slice(0, separator + 1)} ` : '';
+    const typed = value.slice(separator + 1).trim().toLowerCase();
+
+    let candidates: string[];
+    try {
+      candidates = await argument.complete(services);
+    } catch (error) {
+      logger.debug(`No completions for ${name}.${argumentName}`, { error });
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    const matches = [
+      ...candidates.filter(candidate => candidate.toLowerCase().startsWith(typed)),
+      ...candidates.filter(candidate => !candidate.toLowerCase().startsWith(typed) && candidate.toLowerCase().includes(typed))
+    ];
+    return {
+      values: matches.slice(0, MAX_COMPLETIONS).map(match => head + match),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETIONS
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { PromptRegistry } from './PromptRegistry.js';
+import type { ToolServices } from '../tools/ToolRegistry.js';
+
+async function contactNames({ directory }: ToolServices): Promise<string[]> {
+  return (await directory.recentContacts()).map(person => person.displayName);
+}
+
+async function channelNames({ directory }: ToolServices): Promise<string[]> {
+  return directory.channelNames();
+}
+
+export function registerWorkflowPrompts(registry: PromptRegistry): void {
+  registry.register({
+    name: 'scheduleMeeting',
+    description: 'Find a time that works for everyone and book a Teams meeting',
+    arguments: [
+      { name: 'attendees', description: 'People to meet, comma-separated names or email addresses', required: true, complete: contactNames, list: true },
+      { name: 'subject', description: 'What the meeting is about' },
+      { name: 'duration', description: 'Length in minutes (default 30)' },
+      { name: 'when', description: 'When to look for a time, e.g. "next week" or "Thursday afternoon" (default next week)' }
+    ],
+    render: ({ attendees, subject, duration, when }) => [
+      `Schedule a ${duration || 30}-minute Teams meeting with ${attendees}` +
+        `${subject ? ` about "${subject}"` : ''}, ${when || 'next week'}.`,
+      '',
+      '1. Call findAvailability with these attendees and that period to find times when everyone is free.',
+      '2. Show me the three best options with their times and ask which one to book. If none works, suggest widening the search.',
+      `3. When I pick one, call createMeeting for that slot with the same attendees${subject ? '' : ', asking me for a subject first'}.`,
+      '4. Confirm the booked time and the join link.',
+      '',
+      'If a name matches several people, ask me which person I mean instead of guessing.'
+    ].join('\n')
+  });
+
+  registry.register({
+    name: 'prepareForNextMeeting',
+    description: 'Brief me on my next meeting: agenda, attendees and recent conversation with the organizer',
+    arguments: [],
+    render: () => [
+      'Prepare me for my next meeting.',
+      '',
+      '1. Call listUpcomingMeetings with includeDetails set to true and days 1 (or 7 if nothing is left today) and take the first meeting that has not ended yet.',
+      '2. Find my recent chat with the organizer using getRecentChats with members set to the organizer\'s name, then read it with getChatMessages. If I organize the meeting, use the chat with its attendees instead.',
+      '3. Give me a short briefing: when and where (with the join link), who attends, the agenda from the description, and what was recently discussed that is relevant, with any open questions or action items.'
+    ].join('\n')
+  });
+
+  registry.register({
+    name: 'postStatusUpdate',
+    description: 'Draft a status update and post it to a Teams channel after my approval',
+    arguments: [
+      { name: 'channel', description: 'Channel as "Team / Channel"', required: true, complete: channelNames },
+      { name: 'notes', description: 'What to report; if left out, you will be asked' }
+    ],
+    render: ({ channel, notes }) => [
+      `Post a status update to the Teams channel "${channel}".`,
+      '',
+      notes ? `Here is what to report:\n${notes}` : 'First ask me what to report.',
+      '',
+      '1. Draft the update in markdown with the sections Done, In progress and Blocked (leave out empty sections), short and skimmable.',
+      '2. Show me the draft and wait for my approval or changes.',
+      `3. Once approved, call sendTeamsMessage with recipient "${channel}", messageType "channel" and format "markdown".`,
+      '4. Confirm it was posted.'
+    ].join('\n')
+  });
+}
@@ -0,0 +1,131 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ToolServices } from '../tools/ToolRegistry.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('resources');
+
+export interface ResourceDefinition {
+  // URI, or RFC 6570 template with {variable} path segments
+  uriTemplate: string;
+  name: string;
+  description: string;
+  // Concrete resources of a template to show in resources/list
+  list?: (services: ToolServices) => Promise<Resource[]>;
+  // Reuses the tool implementations; an isError result fails the read
+  read: (variables: Record<string, string>, services: ToolServices) => Promise<CallToolResult>;
+}
+
+interface RegisteredResource extends ResourceDefinition {
+  pattern: RegExp;
+  variables: string[];
+}
+
+/**
+ * MCP resources backed by the same Graph queries as the tools, so clients can
+ * attach a channel's history or the day's agenda as context.
+ */
+export class ResourceRegistry {
+  private resources: RegisteredResource[] = [];
+
+  register(resource: ResourceDefinition): void {
+    const variables: string[] = [];
+    const pattern = resource.uriTemplate
+      .split(/(\{\w+\})/)
+      .map(part => {
+        const variable = /^\{(\w+)\}$/.exec(part);
+        if (!variable) {
+          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+        variables.push(variable[1]!);
+        return '([^/]+)';
+      })
+      .join('');
+
+    this.resources.push({ ...resource, pattern: new RegExp(`^${pattern}$`), variables });
+  }
+
+  /**
+   * Fixed resources plus those the templates list. A template whose listing fails
+   * (e.g. before sign-in) is left out rather than failing the whole list.
+   */
+  async list(services: ToolServices): Promise<Resource[]> {
+    const resources: Resource[] = [];
+    for (const resource of this.resources) {
+      if (resource.variables.length === 0) {
+        resources.push({ uri: resource.uriTemplate, name: resource.name, description: resource.description, mimeType: 'text/plain' });
+        continue;
+      }
+      if (!resource.list) {
+        continue;
+      }
+
+      try {
+        resources.push(...await resource.list(services));
+      } catch (error) {
+        logger.debug(`Not listing ${resource.uriTemplate}`, { error });
+      }
+    }
+    return resources;
+  }
+
+  templates(): ResourceTemplate[] {
+    return this.resources
+      .filter(resource => resource.variables.length > 0)
+      .map(resource => ({
+        uriTemplate: resource.uriTemplate,
+        name: resource.name,
+        description: resource.description,
+        mimeType: 'text/plain'
+      }));
+  }
+
+  async read(uri: string, services: ToolServices): Promise<ReadResourceResult> {
+    for (const resource of this.resources) {
+      const match = resource.pattern.exec(uri);
+      if (!match) {
+        continue;
+      }
+
+      const variables = Object.fromEntries(
+        resource.variables.map((name, index) => [name, decodeVariable(name, match[index + 1]!)])
+      );
+      const result = await resource.read(variables, services);
+      const text = result.content
+        .map(content => content.type === 'text' ? content.text : '')
+        .filter(Boolean)
+        .join('\n\n');
+      if (result.isError) {
+        throw new McpError(ErrorCode.InternalError, text);
+      }
+
+      return { contents: [{ uri, mimeType: 'text/plain', text }] };
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+}
+
+/**
+ * Decodes a URI template variable. Variables become Graph path segments, so one
+ * that decodes to another path ("a%2F..%2Fb") is rejected.
+ */
+function decodeVariable(name: string, value: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid percent-encoding in ${name}: ${value}`);
+  }
+
+  if (decoded.includes('/') || decoded.includes('..')) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must not contain "/" or ".."`);
+  }
+  return decoded;
+}
@@ -0,0 +1,36 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceRegistry } from './ResourceRegistry.js';
+
+export function registerCalendarResources(registry: ResourceRegistry): void {
+  registry.register({
+    uriTemplate: 'calendar://today',
+    name: "Today's agenda",
+    description: "Today's meetings in the mailbox time zone, with attendees",
+    read: (_variables, { calendar }) => calendar.getAgenda()
+  });
+
+  registry.register({
+    uriTemplate: 'calendar://day/{date}',
+    name: 'Agenda for a day',
+    description: 'Meetings on a day given as YYYY-MM-DD, in the mailbox time zone',
+    read: async ({ date }, { calendar }) => {
+      if (!isCalendarDate(date!)) {
+        throw new McpError(ErrorCode.InvalidParams, `Expected a date like 2026-10-20, got ${date}`);
+      }
+      return calendar.getAgenda(date);
+    }
+  });
+
+  registry.register({
+    uriTemplate: 'calendar://event/{eventId}',
+    name: 'Meeting',
+    description: 'A meeting with its attendees, their responses and the full description',
+    read: ({ eventId }, { calendar }) => calendar.getMeeting(eventId!)
+  });
+}
+
+// Date would roll an impossible day like 2026-02-31 over into the next month
+function isCalendarDate(value: string): boolean {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  return !isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
@@ -0,0 +1,49 @@
+import { ResourceRegistry } from './ResourceRegistry.js';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+
+export function registerTeamsResources(registry: ResourceRegistry, features: ConnectorConfig['features']): void {
+  registry.register({
+    uriTemplate: 'teams://teams',
+    name: 'My teams',
+    description: 'Teams the user is a member of, with their IDs',
+    read: (_variables, { teams }) => teams.listTeams({ top: 100 })
+  });
+
+  registry.register({
+    uriTemplate: 'teams://chats',
+    name: 'Recent chats',
+    description: 'Recently active chats with their members and IDs',
+    read: (_variables, { teams }) => teams.getRecentChats({ top: 50 })
+  });
+
+  registry.register({
+    uriTemplate: 'teams://team/{teamId}',
+    name: 'Team channels',
+    description: 'Channels of a team, with the channel IDs and paths',
+    list: async ({ directory }) => (await directory.joinedTeams()).map(team => ({
+      uri: `teams://team/${encodeURIComponent(team.id)}`,
+      name: `${team.displayName} channels`,
+      mimeType: 'text/plain'
+    })),
+    read: ({ teamId }, { teams }) => teams.listChannels({ teamId: teamId!, top: 100 })
+  });
+
+  if (features.channelMessages) {
+    registry.register({
+      uriTemplate: 'teams://team/{teamId}/channel/{channelId}/messages',
+      name: 'Channel messages',
+      description: 'Recent top-level messages of a channel',
+      read: ({ teamId, channelId }, { teams }) => teams.getChannelMessages({
+        channelPath: `/teams/${encodeURIComponent(teamId!)}/channels/${encodeURIComponent(channelId!)}`,
+        top: 50
+      })
+    });
+  }
+
+  registry.register({
+    uriTemplate: 'teams://chat/{chatId}/messages',
+    name: 'Chat messages',
+    description: 'Recent messages of a chat, newest first',
+    read: ({ chatId }, { teams }) => teams.getChatMessages({ chatId: chatId!, top: 50 })
+  });
+}
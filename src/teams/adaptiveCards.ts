@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+export const ADAPTIVE_CARD_CONTENT_TYPE = 'application/vnd.microsoft.card.adaptive';
+
+// Teams renders cards up to schema 1.5 and rejects messages over about 28 KB
+const MAX_CARD_BYTES = 28 * 1024;
+
+/*
+ * The part of the Adaptive Card schema Teams renders in messages posted by users.
+ * Unknown properties pass through so styling options (size, weight, spacing, ...)
+ * need not be listed. Action.Submit and Action.Execute are not included: without
+ * a bot to receive them the buttons do nothing.
+ */
+
+const ElementSchema: z.ZodType<unknown> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({ type: z.literal('TextBlock'), text: z.string() }).passthrough(),
+  z.object({
+    type: z.literal('RichTextBlock'),
+    inlines: z.array(z.union([z.string(), z.object({ type: z.literal('TextRun'), text: z.string() }).passthrough()]))
+  }).passthrough(),
+  ImageSchema,
+  z.object({ type: z.literal('ImageSet'), images: z.array(ImageSchema).min(1) }).passthrough(),
+  z.object({
+    type: z.literal('FactSet'),
+    facts: z.array(z.object({ title: z.string(), value: z.string() }).passthrough()).min(1)
+  }).passthrough(),
+  z.object({ type: z.literal('Container'), items: z.array(ElementSchema) }).passthrough(),
+  z.object({
+    type: z.literal('ColumnSet'),
+    columns: z.array(z.object({
+      type: z.literal('Column').optional(),
+      items: z.array(ElementSchema).default([])
+    }).passthrough()).default([])
+  }).passthrough(),
+  z.object({
+    type: z.literal('Table'),
+    columns: z.array(z.object({ width: z.union([z.number(), z.string()]).optional() }).passthrough()).min(1),
+    rows: z.array(z.object({
+      type: z.literal('TableRow').optional(),
+      cells: z.array(z.object({
+        type: z.literal('TableCell').optional(),
+        items: z.array(ElementSchema)
+      }).passthrough())
+    }).passthrough())
+  }).passthrough(),
+  z.object({ type: z.literal('ActionSet'), actions: z.array(ActionSchema).min(1) }).passthrough()
+], {
+  errorMap: (issue, ctx) => issue.code === 'invalid_union_discriminator'
+    ? { message: `Unsupported element type; expected one of ${issue.options.join(', ')}` }
+    : { message: ctx.defaultError }
+}));
+
+const ImageSchema = z.object({
+  type: z.literal('Image'),
+  url: z.string().regex(/^(https:\/\/|data:image\/)/, 'Expected an https or data:image URL')
+}).passthrough();
+
+const ActionSchema: z.ZodType<unknown> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Action.OpenUrl'), url: z.string().url() }).passthrough(),
+  z.object({ type: z.literal('Action.ShowCard'), card: cardSchema(z.string().optional()) }).passthrough(),
+  z.object({
+    type: z.literal('Action.ToggleVisibility'),
+    targetElements: z.array(z.union([z.string(), z.object({ elementId: z.string() }).passthrough()])).min(1)
+  }).passthrough()
+], {
+  errorMap: (issue, ctx) => issue.code === 'invalid_union_discriminator'
+    ? { message: `Unsupported action type; expected one of ${issue.options.join(', ')} (submit actions need a bot)` }
+    : { message: ctx.defaultError }
+}));
+
+function cardSchema(version: z.ZodType<string | undefined>) {
+  return z.object({
+    type: z.literal('AdaptiveCard'),
+    version,
+    body: z.array(ElementSchema).default([]),
+    actions: z.array(ActionSchema).optional()
+  }).passthrough();
+}
+
+export const AdaptiveCardSchema = cardSchema(
+  z.string().regex(/^1\.[0-5]$/, 'Teams supports Adaptive Card versions 1.0 to 1.5')
+).refine(card => card.body.length > 0 || (card.actions?.length ?? 0) > 0, {
+  message: 'The card has no body elements or actions'
+}).refine(card => Buffer.byteLength(JSON.stringify(card)) <= MAX_CARD_BYTES, {
+  message: `The card is larger than the ${MAX_CARD_BYTES / 1024} KB Teams allows in a message`
+});
+
+/**
+ * Validates card JSON against the Adaptive Card schema inside a tool input schema,
+ * so problems are reported with their path like any other invalid argument.
+ */
+export function checkAdaptiveCard(card: unknown, ctx: z.RefinementCtx): void {
+  const result = AdaptiveCardSchema.safeParse(card);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import { BodyFormat } from './messages.js';
+
+/**
+ * Converts an outgoing message to the HTML Teams renders. Plain text is escaped
+ * with line breaks kept, markdown is rendered and HTML is sanitized.
+ */
+export function toMessageHtml(message: string, format: BodyFormat): string {
+  switch (format) {
+    case 'markdown':
+      return markdownToHtml(message);
+    case 'html':
+      return sanitizeHtml(message);
+    default:
+      return textToHtml(message);
+  }
+}
+
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the markdown agents commonly write (headings, emphasis, links, lists,
+ * code, quotes and tables) to the HTML subset Teams supports. All text is escaped,
+ * so raw HTML in the markdown shows up literally. Single line breaks are kept, as
+ * they are in chat.
+ */
+export function markdownToHtml(markdown: string): string {
+  return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function renderBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i]!.trim().startsWith(fence[1]!)) {
+        code.push(lines[i]!);
+      }
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      // Teams renders three heading levels
+      const level = Math.min(heading[1]!.length, 3);
+      html.push(`<h${level}>${renderInline(heading[2]!)}</h${level}>`);
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      html.push('<hr>');
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]!); i++) {
+        quoted.push(QUOTE.exec(lines[i]!)![1]!);
+      }
+      i--;
+      html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      const end = listEnd(lines, i);
+      html.push(renderList(lines.slice(i, end)));
+      i = end - 1;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[i + 1] ?? '')) {
+      flushParagraph();
+      const rows: string[] = [line];
+      for (i += 2; i < lines.length && lines[i]!.includes('|') && lines[i]!.trim() !== ''; i++) {
+        rows.push(lines[i]!);
+      }
+      i--;
+      html.push(renderTable(rows));
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return html.join('');
+}
+
+// A list runs until a blank line followed by something other than an item or
+// indented content, a non-indented line that is not an item, or an item of the
+// other kind (bulleted or numbered) at the same level
+function listEnd(lines: string[], start: number): number {
+  const first = LIST_ITEM.exec(lines[start]!)!;
+  const ordered = /\d/.test(first[2]!);
+  let i = start + 1;
+  for (; i < lines.length; i++) {
+    const line = lines[i]!;
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1]!.length <= first[1]!.length && /\d/.test(item[2]!) !== ordered) {
+      break;
+    }
+    if (line.trim() === '') {
+      const next = lines[i + 1];
+      if (next === undefined || !(LIST_ITEM.test(next) || /^\s{2,}\S/.test(next))) {
+        break;
+      }
+      continue;
+    }
+    if (!LIST_ITEM.test(line) && !/^\s/.test(line)) {
+      break;
+    }
+  }
+  return i;
+}
+
+function renderList(lines: string[]): string {
+  const first = LIST_ITEM.exec(lines[0]!)!;
+  const indent = first[1]!.length;
+  const tag = /\d/.test(first[2]!) ? 'ol' : 'ul';
+  const items: string[][] = [];
+
+  for (const line of lines) {
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1]!.length <= indent) {
+      items.push([item[3]!]);
+    } else if (line.trim() !== '') {
+      // Nested lists and continuation lines belong to the current item
+      items[items.length - 1]!.push(line.slice(Math.min(indent + 2, line.search(/\S/))));
+    }
+  }
+
+  const rendered = items.map(([text, ...rest]) => {
+    const nested = rest.length > 0 && LIST_ITEM.test(rest[0]!)
+      ? renderBlocks(rest)
+      : rest.length > 0 ? `<br>${rest.map(line => renderInline(line.trim())).join('<br>')}` : '';
+    return `<li>${renderInline(text!)}${nested}</li>`;
+  });
+  return `<${tag}>${rendered.join('')}</${tag}>`;
+}
+
+function renderTable(rows: string[]): string {
+  const cells = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+  const [header, ...body] = rows.map(cells);
+  const head = header!.map(cell => `<th>${renderInline(cell)}</th>`).join('');
+  const rowsHtml = body
+    .map(row => `<tr>${header!.map((_, index) => `<td>${renderInline(row[index] ?? '')}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${rowsHtml}</tbody></table>`;
+}
+
+/**
+ * Inline markdown: code spans, links, bare URLs, bold, italic and strikethrough.
+ * Code and links are set aside first so emphasis markers inside them stay as written.
+ */
+function renderInline(text: string): string {
+  const stash: string[] = [];
+  const keep = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let html = escapeHtml(text)
+    .replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => keep(`<code>${code.trim()}</code>`))
+    .replace(/\[([^\]]+)\]\(\s*((?:[^()\s]|\([^()\s]*\))+)(?:\s+&quot;[^)]*&quot;)?\s*\)/g, (_, label: string, url: string) =>
+      isSafeUrl(url) ? keep(`<a href="${url}">${renderEmphasis(label)}</a>`) : label)
+    .replace(/&lt;((?:https?:\/\/|mailto:)[^\s&]+)&gt;/gi, (_, url: string) => keep(`<a href="${url}">${url}</a>`))
+    .replace(/\bhttps?:\/\/[^\s<]+[^\s<.,:;!?)'\]]/gi, url => keep(`<a href="${url}">${url}</a>`));
+
+  html = renderEmphasis(html);
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]!);
+}
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>');
+}
+
+// Tags Teams renders in message bodies; anything else is dropped and its text kept
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'sub', 'sup', 'span', 'div', 'p', 'br', 'hr',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+const VOID_TAGS = new Set(['br', 'hr']);
+
+/**
+ * Keeps the tags Teams supports and drops everything else: scripts, styles and
+ * embedded content with their contents, all attributes except safe link hrefs,
+ * and comments. Raw <at> mentions are dropped too, since they need a matching
+ * mentions entry; use the mentions option instead.
+ */
+export function sanitizeHtml(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|iframe|object|embed|noscript|template|svg|math)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<\/?([a-z][a-z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi, (tag, name: string, attributes: string) => {
+      const tagName = name.toLowerCase();
+      if (!ALLOWED_TAGS.has(tagName)) {
+        return '';
+      }
+      if (tag.startsWith('</')) {
+        return VOID_TAGS.has(tagName) ? '' : `</${tagName}>`;
+      }
+      if (tagName === 'a') {
+        const href = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(attributes);
+        const url = (href?.[1] ?? href?.[2] ?? href?.[3] ?? '').trim();
+        return isSafeUrl(url) ? `<a href="${url.replace(/"/g, '&quot;')}">` : '<a>';
+      }
+      return `<${tagName}>`;
+    });
+}
+
+function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url);
+}
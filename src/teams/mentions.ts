@@ -0,0 +1,69 @@
+import { ChatMessageMention, TeamworkUserIdentity } from '@microsoft/microsoft-graph-types';
+import { escapeHtml } from './formatting.js';
+
+/**
+ * A mention target resolved to its Graph identity. `token` is the text the
+ * message uses to place the mention (e.g. "@jane@contoso.com" or "@channel").
+ */
+export type ResolvedMention =
+  | { kind: 'user'; token: string; userId: string; displayName: string }
+  | { kind: 'channel' | 'team'; token: string; conversationId: string; displayName: string };
+
+export interface MessageBody {
+  content: string;
+  contentType: 'text' | 'html';
+}
+
+/**
+ * Adds <at id="n"> markup to an HTML message body and builds the matching mentions
+ * array. Each mention replaces its token in the message; mentions whose token does
+ * not appear are placed at the start, so the person is still notified.
+ */
+export function buildMentionBody(
+  messageHtml: string,
+  mentions: ResolvedMention[]
+): { body: MessageBody; mentions: ChatMessageMention[] } {
+  const graphMentions: ChatMessageMention[] = [];
+  const leading: string[] = [];
+  let html = messageHtml;
+
+  mentions.forEach((mention, id) => {
+    const markup = `<at id="${id}">${escapeHtml(mention.displayName)}</at>`;
+    const token = escapeHtml(mention.token);
+
+    // Match the token only where it is not part of a longer address or word
+    const pattern = new RegExp(`${escapeRegExp(token)}(?![\\w.@-]*\\w)`, 'i');
+    if (pattern.test(html)) {
+      html = html.replace(pattern, () => markup);
+    } else {
+      leading.push(markup);
+    }
+
+    graphMentions.push({
+      id,
+      mentionText: mention.displayName,
+      mentioned: mention.kind === 'user'
+        ? {
+          user: {
+            id: mention.userId,
+            displayName: mention.displayName,
+            userIdentityType: 'aadUser'
+          } as TeamworkUserIdentity
+        }
+        : {
+          conversation: {
+            id: mention.conversationId,
+            displayName: mention.displayName,
+            conversationIdentityType: mention.kind
+          }
+        }
+    });
+  });
+
+  const content = (leading.length > 0 ? `${leading.join(' ')} ` : '') + html;
+  return { body: { content, contentType: 'html' }, mentions: graphMentions };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,142 @@
+import { ChatMessage } from '@microsoft/microsoft-graph-types';
+
+export type BodyFormat = 'text' | 'markdown' | 'html';
+
+/**
+ * A chat or channel message reduced to the fields an agent needs, with the body
+ * converted to the requested format.
+ */
+export interface MessageSummary {
+  id: string;
+  // Set on channel replies: the ID of the thread's root message
+  replyToId?: string;
+  messageType: string;
+  createdDateTime: string;
+  lastModifiedDateTime?: string;
+  deleted?: boolean;
+  from: {
+    name?: string;
+    userId?: string;
+    // Set when a bot or app posted the message
+    application?: string;
+  };
+  subject?: string;
+  importance?: string;
+  body: string;
+  mentions: Array<{ id: number; text: string; userId?: string; name?: string }>;
+  attachments: Array<{ id?: string; name?: string; contentType?: string; contentUrl?: string }>;
+}
+
+export function toMessageSummary(message: ChatMessage, format: BodyFormat): MessageSummary {
+  const body = message.body?.content || '';
+  const summary: MessageSummary = {
+    id: message.id!,
+    messageType: message.messageType || 'message',
+    createdDateTime: message.createdDateTime!,
+    from: {},
+    body: message.body?.contentType === 'html' ? convertHtml(body, format) : body,
+    mentions: (message.mentions || []).map(mention => ({
+      id: mention.id ?? 0,
+      text: mention.mentionText || '',
+      ...(mention.mentioned?.user?.id && { userId: mention.mentioned.user.id }),
+      ...(mention.mentioned?.user?.displayName && { name: mention.mentioned.user.displayName })
+    })),
+    attachments: (message.attachments || []).map(attachment => ({
+      ...(attachment.id && { id: attachment.id }),
+      ...(attachment.name && { name: attachment.name }),
+      ...(attachment.contentType && { contentType: attachment.contentType }),
+      ...(attachment.contentUrl && { contentUrl: attachment.contentUrl })
+    }))
+  };
+
+  if (message.replyToId) summary.replyToId = message.replyToId;
+  if (message.lastModifiedDateTime) summary.lastModifiedDateTime = message.lastModifiedDateTime;
+  if (message.deletedDateTime) summary.deleted = true;
+  if (message.subject) summary.subject = message.subject;
+  if (message.importance && message.importance !== 'normal') summary.importance = message.importance;
+
+  const user = message.from?.user;
+  const application = message.from?.application;
+  if (user?.displayName) summary.from.name = user.displayName;
+  if (user?.id) summary.from.userId = user.id;
+  if (application?.displayName) {
+    summary.from.application = application.displayName;
+    summary.from.name ??= application.displayName;
+  }
+
+  return summary;
+}
+
+export function convertHtml(html: string, format: BodyFormat): string {
+  if (format === 'html') {
+    return html;
+  }
+  return format === 'markdown' ? htmlToMarkdown(html) : htmlToText(html);
+}
+
+/**
+ * Plain text from Teams message HTML: keeps paragraphs, line breaks and list items,
+ * and writes links as "text (url)".
+ */
+export function htmlToText(html: string): string {
+  return finish(html
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, text) =>
+      stripTags(text) === href ? href : `${text} (${href})`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol|h\d|blockquote|pre|tr)>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, '\t'));
+}
+
+/**
+ * Markdown from Teams message HTML, covering the formatting the Teams composer
+ * produces (emphasis, links, lists, code, quotes, headings).
+ */
+export function htmlToMarkdown(html: string): string {
+  return finish(html
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code) =>
+      `\n\n\`\`\`\n${stripTags(code.replace(/<br\s*\/?>/gi, '\n'))}\n\`\`\`\n\n`)
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '_$2_')
+    .replace(/<(s|strike|del)\b[^>]*>([\s\S]*?)<\/\1>/gi, '~~$2~~')
+    .replace(/<h(\d)\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, text) =>
+      `\n\n${stripTags(text.replace(/<br\s*\/?>/gi, '\n')).trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol)>/gi, '\n\n'));
+}
+
+function finish(text: string): string {
+  return decodeEntities(stripTags(text))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
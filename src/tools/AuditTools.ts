@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { AuditLog } from '../audit/AuditLog.js';
+import { createLogger } from '../logging/Logger.js';
+import { ToolRegistry, errorResult, isoDateTime } from './ToolRegistry.js';
+import { UTC, parseDateTime } from '../calendar/timeZones.js';
+
+const logger = createLogger('audit');
+
+const AuditLogSchema = z.object({
+  since: isoDateTime('Only actions after this time; without an offset it is UTC').optional(),
+  tool: z.string().min(1).optional().describe('Only calls of this tool, e.g. sendTeamsMessage'),
+  outcome: z.enum(['success', 'error']).optional().describe('Only successful or only failed calls'),
+  limit: z.number().int().min(1).max(200).default(20).describe('Maximum number of entries to return')
+});
+
+export type AuditLogParams = z.input<typeof AuditLogSchema>;
+
+/**
+ * The auditLog tool reads the local audit log, so it works without Graph and
+ * before sign-in has finished.
+ */
+export function registerAuditTools(registry: ToolRegistry, auditLog: AuditLog): void {
+  registry.register({
+    name: 'auditLog',
+    description: 'List recent actions this connector performed (messages sent, meetings created or changed, ...), newest first',
+    inputSchema: AuditLogSchema,
+    handler: async (args) => {
+      try {
+        const entries = await auditLog.query({
+          limit: args.limit,
+          ...(args.since && { since: parseDateTime(args.since, UTC) }),
+          ...(args.tool && { tool: args.tool }),
+          ...(args.outcome && { outcome: args.outcome })
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: entries.length === 0
+              ? 'No matching actions in the audit log.'
+              : `${entries.length} audit log entries, newest first:\n\n${JSON.stringify(entries, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        logger.error('Failed to read audit log', { error });
+        return errorResult(`Failed to read audit log: ${error.message || 'Unknown error'}`);
+      }
+    }
+  });
+}
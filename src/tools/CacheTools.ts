@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { CACHE_REGIONS, LookupCache } from '../cache/LookupCache.js';
+import { createLogger } from '../logging/Logger.js';
+import { ToolRegistry, errorResult } from './ToolRegistry.js';
+
+const logger = createLogger('cache');
+
+const ClearCacheSchema = z.object({
+  regions: z.array(z.enum(CACHE_REGIONS)).min(1).optional()
+    .describe('Only clear these lookups: users (name and email to user), chats (people to chat ID), teams (joined teams), channels (team channels). Defaults to all')
+});
+
+export type ClearCacheParams = z.input<typeof ClearCacheSchema>;
+
+export function registerCacheTools(registry: ToolRegistry, cache: LookupCache): void {
+  registry.register({
+    name: 'clearCache',
+    description: 'Forget cached people, chat, team and channel lookups, e.g. after joining a team or when a name resolves to the wrong person',
+    inputSchema: ClearCacheSchema,
+    handler: async (args) => {
+      try {
+        const cleared = await cache.clear(args.regions);
+        const summary = Object.entries(cleared).map(([region, count]) => `${region}: ${count}`).join(', ');
+        return {
+          content: [{ type: 'text', text: `Cache cleared (${summary})` }]
+        };
+      } catch (error: any) {
+        logger.error('Failed to clear cache', { error });
+        return errorResult(`Failed to clear cache: ${error.message || 'Unknown error'}`);
+      }
+    }
+  });
+}
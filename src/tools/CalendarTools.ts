@@ -1,65 +1,293 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { Event, Attendee } from '@microsoft/microsoft-graph-types';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+import { ToolCallContext, ToolRegistry, isoDateTime, pageCursor, previewResult } from './ToolRegistry.js';
+import { collectPages, formatCursorHint } from '../graph/collectPages.js';
+import { idempotencyOptions } from '../graph/ResilienceHandler.js';
+import {
+  TimeZone,
+  UTC,
+  formatDateTime,
+  formatRange,
+  getZonedParts,
+  isSupportedTimeZone,
+  parseDateTime,
+  resolveTimeZone,
+  toGraphDateTime
+} from '../calendar/timeZones.js';
+import {
+  AvailabilityResult,
+  MeetingSlot,
+  findMeetingSlots,
+  fromMeetingTimeSuggestions
+} from '../calendar/availability.js';
+import { MailboxTimeZone } from '../calendar/MailboxTimeZone.js';
+import { RecurrenceSchema, describeRecurrence, toPatternedRecurrence } from '../calendar/recurrence.js';
+import { DirectoryResolver, describePerson } from '../directory/DirectoryResolver.js';
+import { htmlToText } from '../teams/messages.js';
 
-export class CalendarTools {
-  constructor(private graphClient: Client) {}
-
-  async createMeeting(params: {
-    subject: string;
-    startTime: string;
-    endTime: string;
-    attendees?: string[];
-    body?: string;
-    location?: string;
-    isOnline?: boolean;
-  }): Promise<any> {
-    const event: any = {
-      subject: params.subject,
-      start: {
-        dateTime: params.startTime,
-        timeZone: 'UTC'
-      },
-      end: {
-        dateTime: params.endTime,
-        timeZone: 'UTC'
-      },
-      attendees: params.attendees?.map(email => ({
-        emailAddress: { address: email },
-        type: 'required'
-      })) || [],
-      body: {
-        content: params.body || '',
-        contentType: 'text'
-      },
-      isOnlineMeeting: params.isOnline !== false, // Default to true
-      onlineMeetingProvider: params.isOnline !== false ? 'teamsForBusiness' : undefined
-    };
+const logger = createLogger('calendar');
 
-    // Add location if provided
-    if (params.location) {
-      event.location = { displayName: params.location };
-    }
+const TimeZoneArgument = z.string()
+  .refine(isSupportedTimeZone, { message: 'Unknown time zone' })
+  .optional()
+  .describe('IANA or Windows time zone (e.g. Europe/Berlin, Pacific Standard Time) for times without an offset and for the results. Defaults to the mailbox time zone');
+
+const CreateMeetingSchema = z.object({
+  subject: z.string().min(1).describe('Meeting title'),
+  startTime: isoDateTime('ISO format start time; without an offset it is local to timeZone (e.g., 2025-07-11T14:00:00)'),
+  endTime: isoDateTime('ISO format end time; without an offset it is local to timeZone (e.g., 2025-07-11T15:00:00)'),
+  attendees: z.array(z.string().min(1)).optional().describe('Names or email addresses of attendees'),
+  body: z.string().optional().describe('Meeting description or agenda'),
+  location: z.string().optional().describe('Meeting location (room, address, or virtual)'),
+  isOnline: z.boolean().default(true).describe('Create as Teams online meeting'),
+  recurrence: RecurrenceSchema.optional(),
+  timeZone: TimeZoneArgument,
+  idempotencyKey: z.string().min(1).max(64).optional()
+    .describe('Key identifying this meeting; repeating a call with the same key does not create a duplicate. Without a key every call creates a meeting')
+}).refine(params => Date.parse(params.endTime) > Date.parse(params.startTime), {
+  message: 'endTime must be after startTime',
+  path: ['endTime']
+});
+
+const TimeOfDayArgument = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const FindAvailabilitySchema = z.object({
+  attendees: z.array(z.string().min(1)).min(1).describe('Names or email addresses of required attendees; slots where any of them is busy are dropped'),
+  optionalAttendees: z.array(z.string().min(1)).default([]).describe('Names or email addresses of optional attendees; their conflicts only lower the score'),
+  startDate: isoDateTime('Start date for availability search (ISO format)'),
+  endDate: isoDateTime('End date for availability search (ISO format)'),
+  duration: z.number().int().positive().describe('Meeting duration in minutes'),
+  slotMinutes: z.number().int().min(5).max(240).optional()
+    .describe('Spacing between suggested start times in minutes (default from config, usually 30)'),
+  earliestTime: TimeOfDayArgument.optional().describe('Earliest start time of day (HH:mm in timeZone)'),
+  latestTime: TimeOfDayArgument.optional().describe('Latest end time of day (HH:mm in timeZone)'),
+  avoidLunch: z.boolean().default(false).describe('Rank slots overlapping 12:00-13:00 lower'),
+  bufferMinutes: z.number().int().min(0).max(120).default(0)
+    .describe('Minutes attendees need between an existing meeting and this one'),
+  avoidBackToBack: z.boolean().default(false).describe('Rank slots directly adjacent to an attendee\'s other meetings lower'),
+  maxSuggestions: z.number().int().min(1).max(50).default(10).describe('Maximum number of slots to return'),
+  strategy: z.enum(['schedule', 'findMeetingTimes']).default('schedule')
+    .describe('schedule: rank slots locally from free/busy data (supports all preferences). findMeetingTimes: ask Outlook for suggestions (preferences other than attendees are ignored)'),
+  timeZone: TimeZoneArgument
+});
+
+const ListUpcomingMeetingsSchema = z.object({
+  days: z.number().int().positive().default(7).describe('Number of days to look ahead'),
+  includeDetails: z.boolean().default(false).describe('Include detailed meeting information'),
+  maxResults: z.number().int().min(1).max(200).default(50).describe('Maximum number of meetings to return'),
+  timeZone: TimeZoneArgument,
+  cursor: pageCursor()
+});
+
+// Event fields shown when meeting details are requested
+const DETAIL_FIELDS = 'subject,start,end,location,attendees,onlineMeeting,body,organizer,webLink,type,seriesMasterId';
+
+const EventIdArgument = z.string().min(1).describe('Event ID returned by createMeeting or listUpcomingMeetings');
+
+const ScopeArgument = z.enum(['occurrence', 'series']).default('occurrence')
+  .describe('For recurring meetings: occurrence changes only the given occurrence, series the whole series it belongs to');
+
+const UpdateMeetingSchema = z.object({
+  eventId: EventIdArgument,
+  subject: z.string().min(1).optional().describe('New meeting title'),
+  startTime: isoDateTime('New start time; when endTime is omitted the meeting keeps its duration').optional(),
+  endTime: isoDateTime('New end time; when startTime is omitted the meeting keeps its duration').optional(),
+  attendees: z.array(z.string().min(1)).optional().describe('Names or email addresses; replaces all attendees'),
+  addAttendees: z.array(z.string().min(1)).default([]).describe('Names or email addresses of attendees to invite in addition to the current ones'),
+  removeAttendees: z.array(z.string().min(1)).default([]).describe('Names or email addresses of attendees to remove'),
+  body: z.string().optional().describe('New meeting description or agenda'),
+  location: z.string().optional().describe('New meeting location'),
+  recurrence: RecurrenceSchema.optional().describe('New recurrence pattern (requires scope "series")'),
+  scope: ScopeArgument,
+  timeZone: TimeZoneArgument
+}).refine(params => !params.recurrence || params.scope === 'series', {
+  message: 'Changing the recurrence requires scope "series"',
+  path: ['recurrence']
+}).refine(params => !params.attendees || (params.addAttendees.length === 0 && params.removeAttendees.length === 0), {
+  message: 'Use either attendees or addAttendees/removeAttendees',
+  path: ['attendees']
+}).refine(params => !params.startTime || !params.endTime || Date.parse(params.endTime) > Date.parse(params.startTime), {
+  message: 'endTime must be after startTime',
+  path: ['endTime']
+}).refine(params => [
+  params.subject, params.startTime, params.endTime, params.attendees, params.body, params.location, params.recurrence
+].some(value => value !== undefined) || params.addAttendees.length > 0 || params.removeAttendees.length > 0, {
+  message: 'Nothing to update'
+});
+
+const CancelMeetingSchema = z.object({
+  eventId: EventIdArgument,
+  comment: z.string().optional().describe('Message sent to attendees with the cancellation'),
+  scope: ScopeArgument
+});
 
+const RespondToMeetingSchema = z.object({
+  eventId: EventIdArgument,
+  response: z.enum(['accept', 'tentativelyAccept', 'decline']).describe('Response to the invitation'),
+  comment: z.string().optional().describe('Message sent to the organizer'),
+  sendResponse: z.boolean().default(true).describe('Notify the organizer'),
+  proposedStartTime: isoDateTime('Start of a new time proposed to the organizer (tentativelyAccept or decline)').optional(),
+  proposedEndTime: isoDateTime('End of a new time proposed to the organizer').optional(),
+  scope: ScopeArgument,
+  timeZone: TimeZoneArgument
+}).refine(params => !params.proposedStartTime === !params.proposedEndTime, {
+  message: 'proposedStartTime and proposedEndTime must be given together',
+  path: ['proposedEndTime']
+}).refine(params => !params.proposedStartTime || (params.response !== 'accept' && params.sendResponse), {
+  message: 'A new time can only be proposed when tentatively accepting or declining with sendResponse',
+  path: ['proposedStartTime']
+});
+
+export type CreateMeetingParams = z.infer<typeof CreateMeetingSchema>;
+export type FindAvailabilityParams = z.infer<typeof FindAvailabilitySchema>;
+export type ListUpcomingMeetingsParams = z.input<typeof ListUpcomingMeetingsSchema>;
+export type UpdateMeetingParams = z.infer<typeof UpdateMeetingSchema>;
+export type CancelMeetingParams = z.infer<typeof CancelMeetingSchema>;
+export type RespondToMeetingParams = z.infer<typeof RespondToMeetingSchema>;
+
+interface SearchWindow {
+  start: Date;
+  end: Date;
+  zone: TimeZone;
+}
+
+export function registerCalendarTools(registry: ToolRegistry): void {
+  registry.register({
+    name: 'createMeeting',
+    description: 'Creates a new meeting in Microsoft Teams or Outlook calendar',
+    inputSchema: CreateMeetingSchema,
+    writes: true,
+    handler: (args, { calendar }, context) => calendar.createMeeting(args, context)
+  });
+
+  registry.register({
+    name: 'findAvailability',
+    description: 'Check availability for multiple attendees and suggest meeting times',
+    inputSchema: FindAvailabilitySchema,
+    handler: (args, { calendar }) => calendar.findAvailability(args)
+  });
+
+  registry.register({
+    name: 'listUpcomingMeetings',
+    description: 'Get upcoming meetings from calendar',
+    inputSchema: ListUpcomingMeetingsSchema,
+    handler: (args, { calendar }) => calendar.listUpcomingMeetings(args)
+  });
+
+  registry.register({
+    name: 'updateMeeting',
+    description: 'Update or reschedule a meeting: subject, time, attendees, description or location. Attendees are notified of the change',
+    inputSchema: UpdateMeetingSchema,
+    writes: true,
+    handler: (args, { calendar }, context) => calendar.updateMeeting(args, context)
+  });
+
+  registry.register({
+    name: 'cancelMeeting',
+    description: 'Cancel a meeting you organize and notify its attendees',
+    inputSchema: CancelMeetingSchema,
+    writes: true,
+    handler: (args, { calendar }, context) => calendar.cancelMeeting(args, context)
+  });
+
+  registry.register({
+    name: 'respondToMeeting',
+    description: 'Accept, tentatively accept or decline a meeting invitation, optionally proposing a new time',
+    inputSchema: RespondToMeetingSchema,
+    writes: true,
+    handler: (args, { calendar }, context) => calendar.respondToMeeting(args, context)
+  });
+}
+
+export class CalendarTools {
+  constructor(
+    private graphClient: Client,
+    private userPath: string,
+    private options: ConnectorConfig['calendar'],
+    private directory: DirectoryResolver = new DirectoryResolver(graphClient, userPath),
+    private mailboxZone: MailboxTimeZone = new MailboxTimeZone(graphClient, userPath)
+  ) {}
+
+  async createMeeting(params: CreateMeetingParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
     try {
-      console.log(`Creating meeting: ${params.subject}`);
+      const zone = await this.getTimeZone(params.timeZone);
+      const start = parseDateTime(params.startTime, zone);
+      const end = parseDateTime(params.endTime, zone);
+      const attendees = await this.directory.findPeople(params.attendees || []);
+
+      const event: any = {
+        // Lets Graph itself reject a retried create of the same event; retries reuse this body
+        transactionId: params.idempotencyKey || randomUUID(),
+        subject: params.subject,
+        start: {
+          dateTime: toGraphDateTime(start, zone),
+          timeZone: zone.name
+        },
+        end: {
+          dateTime: toGraphDateTime(end, zone),
+          timeZone: zone.name
+        },
+        attendees: attendees.map(person => ({
+          emailAddress: { address: person.email, name: person.displayName },
+          type: 'required'
+        })),
+        body: {
+          content: params.body || '',
+          contentType: 'text'
+        },
+        isOnlineMeeting: params.isOnline !== false, // Default to true
+        onlineMeetingProvider: params.isOnline !== false ? 'teamsForBusiness' : undefined
+      };
+
+      // Add location if provided
+      if (params.location) {
+        event.location = { displayName: params.location };
+      }
+
+      if (params.recurrence) {
+        event.recurrence = toPatternedRecurrence(params.recurrence, start, zone);
+      }
+
+      if (context.dryRun) {
+        return previewResult([
+          `Would create meeting "${params.subject}"`,
+          `When: ${formatRange(start, end, zone)}`,
+          ...(event.recurrence ? [`Repeats: ${describeRecurrence(event.recurrence)}`] : []),
+          `Attendees (${attendees.length}): ${attendees.map(describePerson).join(', ') || 'none'}`,
+          `Online meeting: ${event.isOnlineMeeting ? 'yes' : 'no'}`
+        ], [{ method: 'POST', url: `${this.userPath}/events`, body: event }]);
+      }
+
+      logger.info(`Creating meeting: ${params.subject}`);
       const createdEvent = await this.graphClient
-        .api('/me/events')
+        .api(`${this.userPath}/events`)
+        .middlewareOptions(idempotencyOptions(params.idempotencyKey))
         .post(event);
 
       const joinUrl = createdEvent.onlineMeeting?.joinUrl;
       const meetingInfo = [
         `Meeting "${params.subject}" created successfully!`,
         `Meeting ID: ${createdEvent.id}`,
-        `Start: ${new Date(params.startTime).toLocaleString()}`,
-        `End: ${new Date(params.endTime).toLocaleString()}`
+        `Start: ${formatDateTime(start, zone)}`,
+        `End: ${formatDateTime(end, zone)}`,
+        `Time zone: ${zone.name}`
       ];
 
+      if (event.recurrence) {
+        meetingInfo[1] = `Series ID: ${createdEvent.id}`;
+        meetingInfo.push(`Repeats: ${describeRecurrence(event.recurrence)}`);
+      }
+
       if (joinUrl) {
         meetingInfo.push(`Join URL: ${joinUrl}`);
       }
 
-      if (params.attendees && params.attendees.length > 0) {
-        meetingInfo.push(`Attendees: ${params.attendees.join(', ')}`);
+      if (attendees.length > 0) {
+        meetingInfo.push(`Attendees: ${attendees.map(describePerson).join(', ')}`);
       }
 
       return {
@@ -69,7 +297,7 @@ export class CalendarTools {
         }]
       };
     } catch (error: any) {
-      console.error('Failed to create meeting:', error);
+      logger.error('Failed to create meeting', { error });
       return {
         content: [{
           type: 'text',
@@ -80,52 +308,48 @@ export class CalendarTools {
     }
   }
 
-  async findAvailability(params: {
-    attendees: string[];
-    startDate: string;
-    endDate: string;
-    duration: number;
-  }): Promise<any> {
+  async findAvailability(params: FindAvailabilityParams): Promise<any> {
     try {
-      console.log(`Checking availability for ${params.attendees.length} attendees`);
-      
-      const scheduleInformation = {
-        schedules: params.attendees,
-        startTime: {
-          dateTime: params.startDate,
-          timeZone: 'UTC'
-        },
-        endTime: {
-          dateTime: params.endDate,
-          timeZone: 'UTC'
-        },
-        availabilityViewInterval: 30
+      // Free/busy lookups need email addresses
+      const attendees = (await this.directory.findPeople(params.attendees)).map(person => person.email);
+      const required = new Set(attendees.map(address => address.toLowerCase()));
+      params = {
+        ...params,
+        attendees,
+        // Someone listed as both is required; counting them as optional would let their conflicts through
+        optionalAttendees: (await this.directory.findPeople(params.optionalAttendees))
+          .map(person => person.email)
+          .filter(address => !required.has(address.toLowerCase()))
+      };
+      const attendeeCount = params.attendees.length + params.optionalAttendees.length;
+      logger.info(`Checking availability for ${attendeeCount} attendees using ${params.strategy}`);
+
+      const zone = await this.getTimeZone(params.timeZone);
+      const window = {
+        start: parseDateTime(params.startDate, zone),
+        end: parseDateTime(params.endDate, zone),
+        zone
       };
 
-      const response = await this.graphClient
-        .api('/me/calendar/getSchedule')
-        .post(scheduleInformation);
-
-      // Process availability data and find suitable slots
-      const availableSlots = this.findMeetingSlots(
-        response.value,
-        params.duration,
-        new Date(params.startDate),
-        new Date(params.endDate),
-        params.attendees
-      );
-
-      const resultText = availableSlots.length > 0
-        ? `Found ${availableSlots.length} available time slots:\n${
-            availableSlots.map(slot => 
-              `• ${slot.start.toLocaleString()} - ${slot.end.toLocaleString()} (${slot.availableAttendees}/${params.attendees.length} available)`
-            ).join('\n')
+      const { slots, unknown, note } = params.strategy === 'findMeetingTimes'
+        ? await this.suggestMeetingTimes(params, window)
+        : await this.rankScheduleSlots(params, window);
+
+      let resultText = slots.length > 0
+        ? `Found ${slots.length} available time slots, best first:\n${
+            slots.map(slot => formatSlot(slot, zone)).join('\n')
           }`
-        : `No common availability found for all attendees in the specified time range. Consider:\n` +
+        : `No time found where all required attendees are available. ${note ? `${note}. ` : ''}Consider:\n` +
           `- Expanding the date range\n` +
           `- Reducing the meeting duration (currently ${params.duration} minutes)\n` +
           `- Checking individual attendee schedules`;
 
+      if (unknown.length > 0) {
+        resultText += `\n\nCould not read the schedule of (not counted): ${
+          unknown.map(entry => `${entry.attendee} (${entry.reason})`).join(', ')
+        }`;
+      }
+
       return {
         content: [{
           type: 'text',
@@ -133,7 +357,7 @@ export class CalendarTools {
         }]
       };
     } catch (error: any) {
-      console.error('Failed to check availability:', error);
+      logger.error('Failed to check availability', { error });
       return {
         content: [{
           type: 'text',
@@ -144,186 +368,563 @@ export class CalendarTools {
     }
   }
 
-  private findMeetingSlots(
-    schedules: any[], 
-    duration: number, 
-    startDate: Date, 
-    endDate: Date,
-    attendees: string[]
-  ): Array<{start: Date; end: Date; availableAttendees: number}> {
-    const slots: Array<{start: Date; end: Date; availableAttendees: number}> = [];
-    
-    // Create 30-minute time slots
-    const timeSlot = new Date(startDate);
-    const durationMs = duration * 60 * 1000;
-    
-    while (timeSlot < endDate) {
-      const slotEnd = new Date(timeSlot.getTime() + durationMs);
-      
-      // Don't create slots that extend beyond the end date
-      if (slotEnd > endDate) {
-        break;
+  private async rankScheduleSlots(
+    params: FindAvailabilityParams,
+    window: SearchWindow
+  ): Promise<AvailabilityResult & { note?: string }> {
+    const { zone } = window;
+    const slotMinutes = params.slotMinutes ?? this.options.slotMinutes;
+
+    const scheduleInformation = {
+      schedules: [...params.attendees, ...params.optionalAttendees],
+      startTime: {
+        dateTime: toGraphDateTime(window.start, zone),
+        timeZone: zone.name
+      },
+      endTime: {
+        dateTime: toGraphDateTime(window.end, zone),
+        timeZone: zone.name
+      },
+      availabilityViewInterval: slotMinutes
+    };
+
+    const response = await this.graphClient
+      .api(`${this.userPath}/calendar/getSchedule`)
+      .headers(preferTimeZone(zone))
+      .post(scheduleInformation);
+
+    return findMeetingSlots(response.value, {
+      start: window.start,
+      end: window.end,
+      durationMinutes: params.duration,
+      slotMinutes,
+      zone,
+      viewIntervalMinutes: slotMinutes,
+      defaultWorkingHours: this.options.defaultWorkingHours,
+      optionalAttendees: params.optionalAttendees,
+      preferences: {
+        earliestTime: params.earliestTime,
+        latestTime: params.latestTime,
+        avoidLunch: params.avoidLunch,
+        bufferMinutes: params.bufferMinutes,
+        avoidBackToBack: params.avoidBackToBack
+      },
+      maxSlots: params.maxSuggestions
+    });
+  }
+
+  private async suggestMeetingTimes(
+    params: FindAvailabilityParams,
+    window: SearchWindow
+  ): Promise<AvailabilityResult & { note?: string }> {
+    const { zone } = window;
+    const request = {
+      attendees: [
+        ...params.attendees.map(address => ({ emailAddress: { address }, type: 'required' })),
+        ...params.optionalAttendees.map(address => ({ emailAddress: { address }, type: 'optional' }))
+      ],
+      timeConstraint: {
+        activityDomain: 'work',
+        timeSlots: [{
+          start: { dateTime: toGraphDateTime(window.start, zone), timeZone: zone.name },
+          end: { dateTime: toGraphDateTime(window.end, zone), timeZone: zone.name }
+        }]
+      },
+      meetingDuration: `PT${params.duration}M`,
+      maxCandidates: params.maxSuggestions,
+      returnSuggestionReasons: true
+    };
+
+    const response = await this.graphClient
+      .api(`${this.userPath}/findMeetingTimes`)
+      .headers(preferTimeZone(zone))
+      .post(request);
+
+    // Outlook may still suggest times a required attendee cannot make
+    const required = new Set(params.attendees.map(address => address.toLowerCase()));
+    const slots = fromMeetingTimeSuggestions(response.meetingTimeSuggestions || [], zone)
+      .filter(slot => !slot.busy.some(attendee => required.has(attendee.toLowerCase())));
+
+    return {
+      slots,
+      unknown: [],
+      ...(response.emptySuggestionsReason && { note: `Outlook reported: ${response.emptySuggestionsReason}` })
+    };
+  }
+
+  async listUpcomingMeetings(params: ListUpcomingMeetingsParams = {}): Promise<any> {
+    const days = params.days || 7;
+    const start = new Date();
+    const end = new Date();
+    end.setDate(end.getDate() + days);
+
+    try {
+      logger.info(`Retrieving meetings for the next ${days} days`);
+
+      const zone = await this.getTimeZone(params.timeZone);
+      return await this.listMeetings({ start, end, zone }, params, {
+        title: `Upcoming meetings (next ${days} days, times in ${zone.name})`,
+        empty: `No upcoming meetings found for the next ${days} days.`
+      });
+    } catch (error: any) {
+      logger.error('Failed to retrieve meetings', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to retrieve meetings: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Meetings on a calendar day (YYYY-MM-DD, default today) in the mailbox time zone, with details.
+   */
+  async getAgenda(requestedDate?: string): Promise<any> {
+    try {
+      const zone = await this.getTimeZone(undefined);
+      const today = getZonedParts(new Date(), zone);
+      const date = requestedDate ??
+        `${today.year}-${String(today.month).padStart(2, '0')}-${String(today.day).padStart(2, '0')}`;
+      logger.info(`Retrieving meetings on ${date}`);
+
+      const [year, month, day] = date.split('-').map(Number);
+      const nextDate = new Date(Date.UTC(year!, month! - 1, day! + 1)).toISOString().slice(0, 10);
+      return await this.listMeetings({
+        start: parseDateTime(`${date}T00:00:00`, zone),
+        end: parseDateTime(`${nextDate}T00:00:00`, zone),
+        zone
+      }, { includeDetails: true, maxResults: 200 }, {
+        title: `Meetings on ${date} (times in ${zone.name})`,
+        empty: `No meetings on ${date}.`
+      });
+    } catch (error: any) {
+      logger.error('Failed to retrieve agenda', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to retrieve meetings on ${requestedDate || 'today'}: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * One meeting with its attendees, their responses and the full description.
+   */
+  async getMeeting(eventId: string): Promise<any> {
+    try {
+      logger.info('Retrieving meeting', { eventId });
+
+      const zone = await this.getTimeZone(undefined);
+      const event = await this.graphClient
+        .api(eventPath(this.userPath, eventId))
+        .headers(preferTimeZone(zone))
+        .select(`${DETAIL_FIELDS},isCancelled,responseStatus`)
+        .get() as Event;
+
+      const lines = [
+        event.subject || '(no subject)',
+        `📅 ${formatRange(parseEventTime(event.start!, zone), parseEventTime(event.end!, zone), zone)}`,
+        `🆔 ${event.id}`,
+        ...(event.isCancelled ? ['❌ Cancelled'] : []),
+        ...(event.seriesMasterId ? [`🔁 Part of series ${event.seriesMasterId}`] : []),
+        ...(event.location?.displayName ? [`📍 ${event.location.displayName}`] : []),
+        ...(event.onlineMeeting?.joinUrl ? [`💻 ${event.onlineMeeting.joinUrl}`] : []),
+        ...(event.organizer?.emailAddress ? [`👤 Organizer: ${describeAddress(event.organizer.emailAddress)}`] : []),
+        ...(event.responseStatus?.response ? [`✉️ Your response: ${event.responseStatus.response}`] : [])
+      ];
+
+      if (event.attendees && event.attendees.length > 0) {
+        lines.push('👥 Attendees:', ...event.attendees.map(attendee =>
+          `   - ${describeAddress(attendee.emailAddress ?? {})} (${attendee.type}, ${attendee.status?.response || 'none'})`
+        ));
       }
+
+      const description = event.body?.content
+        ? (event.body.contentType === 'html' ? htmlToText(event.body.content) : event.body.content).trim()
+        : '';
+      if (description) {
+        lines.push('', description);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: lines.join('\n')
+        }]
+      };
+    } catch (error: any) {
+      logger.error('Failed to retrieve meeting', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to retrieve meeting: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  private async listMeetings(
+    window: SearchWindow,
+    params: { includeDetails?: boolean | undefined; maxResults?: number | undefined; cursor?: string | undefined },
+    text: { title: string; empty: string }
+  ): Promise<any> {
+    const { zone } = window;
+    const events = await collectPages<Event>(this.graphClient, this.graphClient
+      .api(`${this.userPath}/calendarView`)
+      .query({
+        startDateTime: window.start.toISOString(),
+        endDateTime: window.end.toISOString(),
+        $orderby: 'start/dateTime',
+        $top: Math.min(params.maxResults || 50, 50),
+        $select: params.includeDetails 
+          ? DETAIL_FIELDS 
+          : 'subject,start,end,location,onlineMeeting,type,seriesMasterId'
+      }), {
+      maxItems: params.maxResults || 50,
+      cursor: params.cursor,
+      headers: preferTimeZone(zone)
+    });
+
+    if (events.items.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: text.empty
+        }]
+      };
+    }
+
+    const meetingList = events.items.map((event: Event, index: number) => {
+      const start = parseEventTime(event.start!, zone);
+      const end = parseEventTime(event.end!, zone);
       
-      // Skip slots outside business hours (9 AM - 5 PM)
-      const hour = timeSlot.getHours();
-      if (hour < 9 || hour >= 17) {
-        timeSlot.setMinutes(timeSlot.getMinutes() + 30);
-        continue;
+      let text = `${index + 1}. ${event.subject}`;
+      text += `\n   📅 ${formatRange(start, end, zone)}`;
+      text += `\n   🆔 ${event.id}`;
+
+      if (event.type === 'occurrence' || event.type === 'exception') {
+        const kind = event.type === 'exception' ? 'Changed occurrence' : 'Occurrence';
+        text += `\n   🔁 ${kind} of series ${event.seriesMasterId}`;
       }
       
-      // Skip weekends
-      const dayOfWeek = timeSlot.getDay();
-      if (dayOfWeek === 0 || dayOfWeek === 6) {
-        timeSlot.setMinutes(timeSlot.getMinutes() + 30);
-        continue;
+      if (event.location?.displayName) {
+        text += `\n   📍 ${event.location.displayName}`;
       }
       
-      let availableCount = 0;
+      if (event.onlineMeeting?.joinUrl) {
+        text += `\n   💻 Teams Meeting`;
+      }
       
-      // Check availability for each attendee
-      for (let i = 0; i < schedules.length; i++) {
-        const schedule = schedules[i];
-        if (this.isTimeFree(schedule, timeSlot, duration)) {
-          availableCount++;
+      if (params.includeDetails) {
+        if (event.attendees && event.attendees.length > 0) {
+          const attendeeNames = event.attendees
+            .map((a: any) => a.emailAddress?.name || a.emailAddress?.address)
+            .filter(Boolean)
+            .join(', ');
+          text += `\n   👥 Attendees: ${attendeeNames}`;
+        }
+        
+        if (event.organizer?.emailAddress?.name) {
+          text += `\n   👤 Organizer: ${event.organizer.emailAddress.name}`;
+        }
+        
+        if (event.body?.content && event.body.content.trim()) {
+          const bodyText = event.body.content
+            .replace(/<[^>]*>/g, '') // Remove HTML tags
+            .substring(0, 100)
+            .trim();
+          if (bodyText) {
+            text += `\n   📝 ${bodyText}${event.body.content.length > 100 ? '...' : ''}`;
+          }
         }
       }
       
-      // Include slots where at least half the attendees are available
-      if (availableCount >= Math.ceil(attendees.length / 2)) {
-        slots.push({
-          start: new Date(timeSlot),
-          end: new Date(slotEnd),
-          availableAttendees: availableCount
-        });
+      return text;
+    }).join('\n\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${text.title}:\n\n${meetingList}` + formatCursorHint(events.nextCursor)
+      }]
+    };
+  }
+
+  async updateMeeting(params: UpdateMeetingParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
+    try {
+      logger.info('Updating meeting', { eventId: params.eventId, scope: params.scope });
+
+      const path = eventPath(this.userPath, await this.resolveEventId(params.eventId, params.scope));
+      const zone = await this.getTimeZone(params.timeZone);
+      let current: Event | undefined;
+      const getCurrent = async (): Promise<Event> => {
+        current ??= await this.graphClient
+          .api(path)
+          .headers(preferTimeZone(zone))
+          .select('start,end,attendees')
+          .get() as Event;
+        return current;
+      };
+
+      const changes: any = {};
+      if (params.subject) {
+        changes.subject = params.subject;
       }
-      
-      // Move to next 30-minute slot
-      timeSlot.setMinutes(timeSlot.getMinutes() + 30);
-    }
-    
-    // Sort by most available attendees first, then by time
-    return slots
-      .sort((a, b) => {
-        if (b.availableAttendees !== a.availableAttendees) {
-          return b.availableAttendees - a.availableAttendees;
+      if (params.body !== undefined) {
+        changes.body = { content: params.body, contentType: 'text' };
+      }
+      if (params.location !== undefined) {
+        changes.location = { displayName: params.location };
+      }
+
+      if (params.startTime || params.endTime) {
+        let start = params.startTime ? parseDateTime(params.startTime, zone) : undefined;
+        let end = params.endTime ? parseDateTime(params.endTime, zone) : undefined;
+
+        // Moving only one end keeps the meeting's duration
+        if (!start || !end) {
+          const event = await getCurrent();
+          const durationMs = parseEventTime(event.end!, zone).getTime() - parseEventTime(event.start!, zone).getTime();
+          start ??= new Date(end!.getTime() - durationMs);
+          end ??= new Date(start.getTime() + durationMs);
         }
-        return a.start.getTime() - b.start.getTime();
-      })
-      .slice(0, 10); // Return top 10 slots
-  }
 
-  private isTimeFree(schedule: any, startTime: Date, duration: number): boolean {
-    if (!schedule.freeBusyViewInfo) {
-      return true; // Assume free if no data
-    }
-    
-    const endTime = new Date(startTime.getTime() + duration * 60 * 1000);
-    
-    // Check if any busy periods conflict with our time slot
-    for (const busyTime of schedule.busyTimes || []) {
-      const busyStart = new Date(busyTime.start.dateTime);
-      const busyEnd = new Date(busyTime.end.dateTime);
-      
-      // Check for overlap
-      if (startTime < busyEnd && endTime > busyStart) {
-        return false;
+        changes.start = { dateTime: toGraphDateTime(start, zone), timeZone: zone.name };
+        changes.end = { dateTime: toGraphDateTime(end, zone), timeZone: zone.name };
+      }
+
+      if (params.attendees) {
+        changes.attendees = (await this.directory.findPeople(params.attendees)).map(person => ({
+          emailAddress: { address: person.email, name: person.displayName },
+          type: 'required'
+        }));
+      } else if (params.addAttendees.length > 0 || params.removeAttendees.length > 0) {
+        const removed = new Set((await this.directory.findPeople(params.removeAttendees)).map(person => person.email.toLowerCase()));
+        const attendees = ((await getCurrent()).attendees || [])
+          .filter(attendee => !removed.has(attendee.emailAddress?.address?.toLowerCase() || ''));
+        const present = new Set(attendees.map(attendee => attendee.emailAddress?.address?.toLowerCase()));
+
+        for (const person of await this.directory.findPeople(params.addAttendees)) {
+          if (!present.has(person.email.toLowerCase())) {
+            attendees.push({ emailAddress: { address: person.email, name: person.displayName }, type: 'required' });
+          }
+        }
+        changes.attendees = attendees;
       }
+
+      if (params.recurrence) {
+        const start = changes.start
+          ? parseDateTime(changes.start.dateTime, zone)
+          : parseEventTime((await getCurrent()).start!, zone);
+        changes.recurrence = toPatternedRecurrence(params.recurrence, start, zone);
+      }
+
+      if (context.dryRun) {
+        return previewResult([
+          `Would update ${params.scope === 'series' ? 'the series of ' : ''}meeting ${params.eventId}: ` +
+            Object.keys(changes).join(', '),
+          ...(changes.attendees
+            ? [`Attendees (${changes.attendees.length}): ${changes.attendees.map((a: Attendee) => a.emailAddress?.address).join(', ')}`]
+            : []),
+          'Attendees are notified of the change'
+        ], [{ method: 'PATCH', url: path, body: changes }]);
+      }
+
+      const updated: Event = await this.graphClient
+        .api(path)
+        .headers(preferTimeZone(zone))
+        .patch(changes);
+
+      const meetingInfo = [
+        `Meeting "${updated.subject}" updated successfully!`,
+        `Meeting ID: ${updated.id}`,
+        `When: ${formatRange(parseEventTime(updated.start!, zone), parseEventTime(updated.end!, zone), zone)}`
+      ];
+
+      if (updated.recurrence) {
+        meetingInfo.push(`Repeats: ${describeRecurrence(updated.recurrence)}`);
+      }
+
+      const attendeeList = (updated.attendees || [])
+        .map(attendee => attendee.emailAddress?.address)
+        .filter(Boolean);
+      if (attendeeList.length > 0) {
+        meetingInfo.push(`Attendees: ${attendeeList.join(', ')}`);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: meetingInfo.join('\n')
+        }]
+      };
+    } catch (error: any) {
+      logger.error('Failed to update meeting', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to update meeting: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
     }
-    
-    return true;
   }
 
-  async listUpcomingMeetings(params: {
-    days?: number;
-    includeDetails?: boolean;
-  } = {}): Promise<any> {
-    const days = params.days || 7;
-    const startDateTime = new Date().toISOString();
-    const endDateTime = new Date();
-    endDateTime.setDate(endDateTime.getDate() + days);
+  async cancelMeeting(params: CancelMeetingParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
+    try {
+      logger.info('Cancelling meeting', { eventId: params.eventId, scope: params.scope });
+      const eventId = await this.resolveEventId(params.eventId, params.scope);
+      const url = `${eventPath(this.userPath, eventId)}/cancel`;
+      const cancellation = { comment: params.comment || '' };
 
+      if (context.dryRun) {
+        return previewResult([
+          `Would cancel ${params.scope === 'series' ? 'the meeting series' : 'the meeting'} ${eventId} ` +
+            'and send attendees a cancellation'
+        ], [{ method: 'POST', url, body: cancellation }]);
+      }
+
+      await this.graphClient
+        .api(url)
+        .post(cancellation);
+
+      return {
+        content: [{
+          type: 'text',
+          text: `${params.scope === 'series' ? 'Meeting series' : 'Meeting'} cancelled. ` +
+            'Attendees have been sent a cancellation.'
+        }]
+      };
+    } catch (error: any) {
+      logger.error('Failed to cancel meeting', { error });
+      // Graph refuses a cancel from an attendee with 403 ErrorAccessDenied
+      const denied = error.statusCode === 403 || error.code === 'ErrorAccessDenied';
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to cancel meeting: ${error.message || 'Unknown error'}` + (denied
+            ? '. Only the organizer can cancel; attendees can decline with respondToMeeting'
+            : '')
+        }],
+        isError: true
+      };
+    }
+  }
+
+  async respondToMeeting(params: RespondToMeetingParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
     try {
-      console.log(`Retrieving meetings for the next ${days} days`);
-      
-      const events = await this.graphClient
-        .api('/me/calendarView')
-        .query({
-          startDateTime,
-          endDateTime: endDateTime.toISOString(),
-          $orderby: 'start/dateTime',
-          $select: params.includeDetails 
-            ? 'subject,start,end,location,attendees,onlineMeeting,body,organizer,webLink' 
-            : 'subject,start,end,location,onlineMeeting'
-        })
-        .get();
-
-      if (!events.value || events.value.length === 0) {
-        return {
-          content: [{
-            type: 'text',
-            text: `No upcoming meetings found for the next ${days} days.`
-          }]
+      logger.info(`Responding to meeting: ${params.response}`, { eventId: params.eventId });
+
+      const response: any = {
+        comment: params.comment || '',
+        sendResponse: params.sendResponse
+      };
+
+      let proposal = '';
+      if (params.proposedStartTime && params.proposedEndTime) {
+        const zone = await this.getTimeZone(params.timeZone);
+        const start = parseDateTime(params.proposedStartTime, zone);
+        const end = parseDateTime(params.proposedEndTime, zone);
+        response.proposedNewTime = {
+          start: { dateTime: toGraphDateTime(start, zone), timeZone: zone.name },
+          end: { dateTime: toGraphDateTime(end, zone), timeZone: zone.name }
         };
+        proposal = ` and proposed ${formatRange(start, end, zone)}`;
       }
 
-      const meetingList = events.value.map((event: Event, index: number) => {
-        const start = new Date(event.start!.dateTime!);
-        const end = new Date(event.end!.dateTime!);
-        
-        let text = `${index + 1}. ${event.subject}`;
-        text += `\n   📅 ${start.toLocaleDateString()} ${start.toLocaleTimeString()} - ${end.toLocaleTimeString()}`;
-        
-        if (event.location?.displayName) {
-          text += `\n   📍 ${event.location.displayName}`;
-        }
-        
-        if (event.onlineMeeting?.joinUrl) {
-          text += `\n   💻 Teams Meeting`;
-        }
-        
-        if (params.includeDetails) {
-          if (event.attendees && event.attendees.length > 0) {
-            const attendeeNames = event.attendees
-              .map((a: any) => a.emailAddress?.name || a.emailAddress?.address)
-              .filter(Boolean)
-              .join(', ');
-            text += `\n   👥 Attendees: ${attendeeNames}`;
-          }
-          
-          if (event.organizer?.emailAddress?.name) {
-            text += `\n   👤 Organizer: ${event.organizer.emailAddress.name}`;
-          }
-          
-          if (event.body?.content && event.body.content.trim()) {
-            const bodyText = event.body.content
-              .replace(/<[^>]*>/g, '') // Remove HTML tags
-              .substring(0, 100)
-              .trim();
-            if (bodyText) {
-              text += `\n   📝 ${bodyText}${event.body.content.length > 100 ? '...' : ''}`;
-            }
-          }
-        }
-        
-        return text;
-      }).join('\n\n');
+      const eventId = await this.resolveEventId(params.eventId, params.scope);
+      const url = `${eventPath(this.userPath, eventId)}/${params.response}`;
+      const verb = {
+        accept: 'Accepted',
+        tentativelyAccept: 'Tentatively accepted',
+        decline: 'Declined'
+      }[params.response];
+
+      if (context.dryRun) {
+        return previewResult([
+          `Would respond "${params.response}" to meeting ${eventId}${proposal}` +
+            (params.sendResponse ? ' and notify the organizer' : ' without notifying the organizer')
+        ], [{ method: 'POST', url, body: response }]);
+      }
+
+      await this.graphClient
+        .api(url)
+        .post(response);
 
       return {
         content: [{
           type: 'text',
-          text: `Upcoming meetings (next ${days} days):\n\n${meetingList}`
+          text: `${verb} the meeting${proposal}.` +
+            (params.sendResponse ? ' The organizer has been notified.' : ' The organizer was not notified.')
         }]
       };
     } catch (error: any) {
-      console.error('Failed to retrieve meetings:', error);
+      logger.error('Failed to respond to meeting', { error });
       return {
         content: [{
           type: 'text',
-          text: `Failed to retrieve meetings: ${error.message || 'Unknown error'}`
+          text: `Failed to respond to meeting: ${error.message || 'Unknown error'}`
         }],
         isError: true
       };
     }
   }
-}
\ No newline at end of file
+
+  // Maps an occurrence or exception to its series master when the whole series is meant
+  private async resolveEventId(eventId: string, scope: 'occurrence' | 'series'): Promise<string> {
+    if (scope === 'occurrence') {
+      return eventId;
+    }
+
+    const event: Event = await this.graphClient
+      .api(eventPath(this.userPath, eventId))
+      .select('type,seriesMasterId')
+      .get();
+    return event.seriesMasterId || eventId;
+  }
+
+  private async getTimeZone(requested: string | undefined): Promise<TimeZone> {
+    // Validated by the tool schema
+    return requested ? resolveTimeZone(requested)! : this.mailboxZone.get();
+  }
+}
+
+function formatSlot(slot: MeetingSlot, zone: TimeZone): string {
+  const groups = [
+    slot.free.length > 0 && `free: ${slot.free.join(', ')}`,
+    slot.tentative.length > 0 && `tentative: ${slot.tentative.join(', ')}`,
+    slot.busy.length > 0 && `busy: ${slot.busy.join(', ')}`
+  ].filter(Boolean);
+
+  let line = `• ${formatRange(slot.start, slot.end, zone)} - score ${slot.score}`;
+  if (groups.length > 0) {
+    line += `\n   ${groups.join('; ')}`;
+  }
+  if (slot.notes.length > 0) {
+    line += `\n   ${slot.notes.join('; ')}`;
+  }
+  return line;
+}
+
+function describeAddress(address: { name?: string | null; address?: string | null }): string {
+  return address.name && address.address ? `${address.name} <${address.address}>` : address.name || address.address || 'unknown';
+}
+
+// Graph returns event and schedule times as wall-clock times in this zone
+function preferTimeZone(zone: TimeZone): Record<string, string> {
+  return { Prefer: `outlook.timezone="${zone.name}"` };
+}
+
+function eventPath(userPath: string, eventId: string): string {
+  return `${userPath}/events/${encodeURIComponent(eventId)}`;
+}
+
+function parseEventTime(time: NonNullable<Event['start']>, fallback: TimeZone): Date {
+  const zone = (time.timeZone && resolveTimeZone(time.timeZone)) || fallback;
+  return parseDateTime(time.dateTime!, zone);
+}
@@ -0,0 +1,59 @@
+import { createHash, randomUUID } from 'node:crypto';
+
+interface PendingConfirmation {
+  tool: string;
+  argsHash: string;
+  expiresAt: number;
+}
+
+/**
+ * Single-use tokens that confirm a previewed write. A token is bound to the tool
+ * and its exact arguments, so it cannot approve a different call.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttlMs: number) {}
+
+  issue(tool: string, args: unknown): string {
+    this.prune();
+    const token = randomUUID();
+    this.pending.set(token, {
+      tool,
+      argsHash: hashArguments(tool, args),
+      expiresAt: Date.now() + this.ttlMs
+    });
+    return token;
+  }
+
+  /**
+   * Uses up the token; returns false when it is unknown, expired, or was issued
+   * for another tool or other arguments.
+   */
+  consume(token: string, tool: string, args: unknown): boolean {
+    this.prune();
+    const confirmation = this.pending.get(token);
+    if (!confirmation || confirmation.tool !== tool || confirmation.argsHash !== hashArguments(tool, args)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, confirmation] of this.pending) {
+      if (confirmation.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+// Tool arguments come out of schema parsing, so equal calls serialize identically
+function hashArguments(tool: string, args: unknown): string {
+  return createHash('sha256')
+    .update(tool)
+    .update(JSON.stringify(args))
+    .digest('hex');
+}
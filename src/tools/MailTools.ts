@@ -0,0 +1,321 @@
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { basename, extname, resolve, sep } from 'node:path';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { FileAttachment, Message, Recipient } from '@microsoft/microsoft-graph-types';
+import { z } from 'zod';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+import { ToolCallContext, ToolRegistry, isoDateTime, pageCursor, previewResult } from './ToolRegistry.js';
+import { collectPages, formatCursorHint } from '../graph/collectPages.js';
+import { idempotencyOptions } from '../graph/ResilienceHandler.js';
+import { UTC, parseDateTime } from '../calendar/timeZones.js';
+import { markdownToHtml } from '../teams/formatting.js';
+
+const logger = createLogger('mail');
+
+// Attachments travel base64-encoded in the request, which Graph caps at 4 MB
+const MAX_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+
+const SendMailSchema = z.object({
+  to: z.array(z.string().email()).min(1).describe('Email addresses of recipients'),
+  cc: z.array(z.string().email()).default([]).describe('Email addresses to copy'),
+  bcc: z.array(z.string().email()).default([]).describe('Email addresses to blind copy'),
+  subject: z.string().min(1).describe('Subject line'),
+  body: z.string().describe('Message body'),
+  format: z.enum(['text', 'markdown', 'html']).default('text')
+    .describe('How to interpret body: plain text, markdown (sent as HTML) or HTML'),
+  importance: z.enum(['low', 'normal', 'high']).default('normal').describe('Message importance'),
+  attachments: z.array(z.string().min(1)).max(20).default([])
+    .describe('Files in the attachment directory to attach, up to 3 MB in total; relative paths are relative to that directory'),
+  saveToSentItems: z.boolean().default(true).describe('Keep a copy in Sent Items'),
+  draft: z.boolean().default(false)
+    .describe('Save as a draft in Outlook for the user to review and send, instead of sending'),
+  idempotencyKey: z.string().min(1).max(64).optional()
+    .describe('Key identifying this send; repeating a call with the same key does not send twice. Without a key every call sends')
+});
+
+const SearchMailSchema = z.object({
+  query: z.string().min(1).optional()
+    .describe('Search text, matched against subject, body and people (KQL such as subject:report is supported)'),
+  folder: z.enum(['inbox', 'sentitems', 'drafts', 'archive', 'deleteditems', 'all']).default('inbox')
+    .describe('Mail folder to search, or all folders'),
+  from: z.string().email().optional().describe('Only messages from this email address'),
+  unreadOnly: z.boolean().default(false).describe('Only unread messages'),
+  since: isoDateTime('Only messages received after this time; without an offset it is UTC').optional(),
+  top: z.number().int().min(1).max(50).default(10).describe('Maximum number of messages to return'),
+  cursor: pageCursor()
+});
+
+export type SendMailParams = z.input<typeof SendMailSchema>;
+export type SearchMailParams = z.input<typeof SearchMailSchema>;
+
+export function registerMailTools(registry: ToolRegistry): void {
+  registry.register({
+    name: 'sendMail',
+    description: 'Send an Outlook email, or save it as a draft for review, with optional file attachments',
+    inputSchema: SendMailSchema,
+    writes: true,
+    handler: (args, { mail }, context) => mail.sendMail(args, context)
+  });
+
+  registry.register({
+    name: 'searchMail',
+    description: 'Search or list Outlook email, newest first, with sender, time and a preview',
+    inputSchema: SearchMailSchema,
+    handler: (args, { mail }) => mail.searchMail(args)
+  });
+}
+
+export class MailTools {
+  constructor(
+    private graphClient: Client,
+    private userPath: string = '/me',
+    private options: ConnectorConfig['mail'] = { enabled: true },
+    // Config, log and cache files that must never be attached
+    private connectorFiles: string[] = []
+  ) {}
+
+  async sendMail(params: SendMailParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
+    try {
+      logger.info(`${params.draft ? 'Saving draft' : 'Sending mail'} to: ${params.to.join(', ')}`);
+
+      const format = params.format || 'text';
+      const message: Message = {
+        subject: params.subject,
+        body: {
+          contentType: format === 'text' ? 'text' : 'html',
+          content: format === 'markdown' ? markdownToHtml(params.body) : params.body
+        },
+        toRecipients: params.to.map(toRecipient),
+        ccRecipients: (params.cc || []).map(toRecipient),
+        bccRecipients: (params.bcc || []).map(toRecipient),
+        importance: params.importance || 'normal'
+      };
+
+      const attachments = await readAttachments(params.attachments || [], this.options.attachmentDir, this.connectorFiles);
+      if (attachments.length > 0) {
+        message.attachments = attachments;
+      }
+
+      if (context.dryRun) {
+        const recipients = (label: string, addresses: string[] = []) =>
+          addresses.length > 0 ? [`${label}: ${addresses.join(', ')}`] : [];
+        // Attachment contents would only bloat the preview
+        const preview = {
+          ...message,
+          ...(attachments.length > 0 && {
+            attachments: attachments.map(({ contentBytes, ...attachment }) =>
+              ({ ...attachment, size: Buffer.byteLength(contentBytes || '', 'base64') }))
+          })
+        };
+        return previewResult([
+          params.draft ? `Would save a draft "${params.subject}" for review` : `Would send "${params.subject}"`,
+          ...recipients('To', params.to),
+          ...recipients('Cc', params.cc),
+          ...recipients('Bcc', params.bcc),
+          ...(attachments.length > 0 ? [`Attachments: ${attachments.map(attachment => attachment.name).join(', ')}`] : [])
+        ], [params.draft
+          ? { method: 'POST', url: `${this.userPath}/messages`, body: preview }
+          : { method: 'POST', url: `${this.userPath}/sendMail`, body: { message: preview, saveToSentItems: params.saveToSentItems ?? true } }
+        ]);
+      }
+
+      if (params.draft) {
+        const draft = await this.graphClient
+          .api(`${this.userPath}/messages`)
+          .post(message);
+
+        return {
+          content: [{
+            type: 'text',
+            text: `Draft "${params.subject}" saved for review in Outlook\nDraft ID: ${draft.id}` +
+              (draft.webLink ? `\nOpen: ${draft.webLink}` : '')
+          }]
+        };
+      }
+
+      // sendMail returns 202 without the message; it is in Sent Items when saveToSentItems is set
+      await this.graphClient
+        .api(`${this.userPath}/sendMail`)
+        .middlewareOptions(idempotencyOptions(params.idempotencyKey))
+        .post({ message, saveToSentItems: params.saveToSentItems ?? true });
+
+      const recipients = [...params.to, ...(params.cc || []), ...(params.bcc || [])];
+      return {
+        content: [{
+          type: 'text',
+          text: `Email "${params.subject}" sent to ${recipients.join(', ')}` +
+            (attachments.length > 0 ? `\nAttachments: ${attachments.map(attachment => attachment.name).join(', ')}` : '')
+        }]
+      };
+    } catch (error: any) {
+      logger.error('Failed to send mail', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to ${params.draft ? 'save draft' : 'send mail'}: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  async searchMail(params: SearchMailParams = {}): Promise<any> {
+    const top = params.top || 10;
+    try {
+      logger.info(`Searching mail in ${params.folder || 'inbox'}`);
+
+      const folder = params.folder || 'inbox';
+      const since = params.since ? parseDateTime(params.since, UTC).getTime() : undefined;
+      const from = params.from?.toLowerCase();
+
+      let request = this.graphClient
+        .api(folder === 'all' ? `${this.userPath}/messages` : `${this.userPath}/mailFolders/${folder}/messages`)
+        .select('id,subject,from,receivedDateTime,bodyPreview,isRead,hasAttachments,importance,webLink')
+        .top(top);
+
+      // $search cannot be combined with $filter or $orderby, so search results are filtered locally
+      let filter: ((message: any) => boolean) | undefined;
+      if (params.query) {
+        request = request.search(`"${params.query.replace(/"/g, '\\"')}"`);
+        filter = (message: any) =>
+          (since === undefined || Date.parse(message.receivedDateTime) > since) &&
+          (!from || message.from?.emailAddress?.address?.toLowerCase() === from) &&
+          (!params.unreadOnly || !message.isRead);
+      } else {
+        // Graph requires the $orderby property to lead the $filter
+        const conditions = [`receivedDateTime ge ${since === undefined ? '1900-01-01T00:00:00Z' : new Date(since).toISOString()}`];
+        if (from) conditions.push(`from/emailAddress/address eq '${from.replace(/'/g, '\'\'')}'`);
+        if (params.unreadOnly) conditions.push('isRead eq false');
+        request = request
+          .filter(conditions.join(' and '))
+          .orderby('receivedDateTime desc');
+      }
+
+      const messages = await collectPages(this.graphClient, request, {
+        maxItems: top,
+        cursor: params.cursor,
+        ...(filter && { filter })
+      });
+
+      if (messages.items.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: params.query ? `No email matching "${params.query}" found.` : 'No email found.'
+          }]
+        };
+      }
+
+      const messageList = messages.items.map((message: any, index: number) => {
+        const sender = message.from?.emailAddress;
+        let text = `${index + 1}. ${message.isRead ? '' : '🔵 '}**${message.subject || '(no subject)'}**`;
+        text += `\n   From: ${sender?.name || ''}${sender?.address ? ` <${sender.address}>` : ''}`;
+        text += `\n   Received: ${message.receivedDateTime}`;
+
+        if (message.importance && message.importance !== 'normal') {
+          text += `\n   Importance: ${message.importance}`;
+        }
+
+        if (message.hasAttachments) {
+          text += '\n   📎 Has attachments';
+        }
+
+        if (message.bodyPreview) {
+          text += `\n   Preview: ${message.bodyPreview.replace(/\s+/g, ' ').trim()}`;
+        }
+
+        text += `\n   🆔 ${message.id}`;
+        return text;
+      }).join('\n\n');
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Email (${messages.items.length} shown):\n\n${messageList}` +
+            formatCursorHint(messages.nextCursor)
+        }]
+      };
+    } catch (error: any) {
+      logger.error('Failed to search mail', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to search mail: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+}
+
+function toRecipient(address: string): Recipient {
+  return { emailAddress: { address } };
+}
+
+/**
+ * Reads files to attach from the attachment directory. Paths are resolved with
+ * symlinks followed, so neither ".." nor a link can reach a file outside it, and
+ * the connector's own files are refused even when they are inside it.
+ */
+async function readAttachments(paths: string[], directory: string | undefined, connectorFiles: string[]): Promise<FileAttachment[]> {
+  if (paths.length === 0) {
+    return [];
+  }
+  if (!directory) {
+    throw new Error('Attachments are turned off: set mail.attachmentDir to the directory files may be attached from');
+  }
+
+  const root = await realpath(directory).catch(() => {
+    throw new Error(`Attachment directory not found: ${directory}`);
+  });
+  const refused = await Promise.all(connectorFiles.map(file => realpath(file).catch(() => resolve(file))));
+
+  const attachments: FileAttachment[] = [];
+  let totalBytes = 0;
+
+  for (const path of paths) {
+    const fullPath = await realpath(resolve(root, path)).catch(() => undefined);
+    const stats = fullPath ? await stat(fullPath).catch(() => undefined) : undefined;
+    if (!fullPath || !stats?.isFile()) {
+      throw new Error(`Attachment not found: ${path}`);
+    }
+    if (!fullPath.startsWith(root + sep)) {
+      throw new Error(`Attachment ${path} is outside the attachment directory ${root}`);
+    }
+    // Rotated logs (audit.jsonl.1) and files in cache directories count as well
+    if (refused.some(file => fullPath === file || fullPath.startsWith(file + sep) || fullPath.startsWith(`${file}.`))) {
+      throw new Error(`Attachment ${path} is one of the connector's own files and cannot be sent`);
+    }
+
+    totalBytes += stats.size;
+    if (totalBytes > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`Attachments exceed ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB in total`);
+    }
+
+    attachments.push({
+      '@odata.type': '#microsoft.graph.fileAttachment',
+      name: basename(fullPath),
+      contentType: CONTENT_TYPES[extname(fullPath).toLowerCase()] || 'application/octet-stream',
+      contentBytes: (await readFile(fullPath)).toString('base64')
+    } as FileAttachment);
+  }
+  return attachments;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
@@ -1,25 +1,277 @@
-import { Client } from '@microsoft/microsoft-graph-client';
+import { Client, GraphRequest } from '@microsoft/microsoft-graph-client';
+import { randomUUID } from 'node:crypto';
+import { ChatMessageAttachment, ChatMessageMention } from '@microsoft/microsoft-graph-types';
+import { z } from 'zod';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+import { RequestPreview, ToolCallContext, ToolRegistry, isoDateTime, pageCursor, previewResult } from './ToolRegistry.js';
+import { collectPages, formatCursorHint } from '../graph/collectPages.js';
+import { idempotencyOptions } from '../graph/ResilienceHandler.js';
+import { UTC, formatDateTime, parseDateTime } from '../calendar/timeZones.js';
+import { MailboxTimeZone } from '../calendar/MailboxTimeZone.js';
+import { BodyFormat, toMessageSummary } from '../teams/messages.js';
+import { MessageBody, ResolvedMention, buildMentionBody } from '../teams/mentions.js';
+import { toMessageHtml } from '../teams/formatting.js';
+import { ADAPTIVE_CARD_CONTENT_TYPE, checkAdaptiveCard } from '../teams/adaptiveCards.js';
+import { LookupCache } from '../cache/LookupCache.js';
+import { DirectoryResolver, DirectoryUser, describePerson, isChannelName } from '../directory/DirectoryResolver.js';
+
+const logger = createLogger('teams');
+
+const CHANNEL_PATH = /^\/teams\/[^/?#]+\/channels\/[^/?#]+$/;
+
+const SendTeamsMessageSchema = z.object({
+  recipient: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(249)]).describe(
+    'Name, email address or chat ID (from getRecentChats) for chat messages, a list of names or email addresses ' +
+    'for a group chat with exactly those people, or "Team / Channel" name or channel path (from listChannels) for channel messages'
+  ),
+  topic: z.string().min(1).max(250).optional()
+    .describe('Topic for a group chat created for a list of recipients'),
+  message: z.string().min(1).optional().describe('Message content to send; optional when sending an adaptiveCard'),
+  format: z.enum(['text', 'markdown', 'html']).default('text')
+    .describe('How to interpret message: plain text, markdown (headings, lists, code, links, tables) or HTML (sanitized to what Teams supports)'),
+  adaptiveCard: z.record(z.unknown()).superRefine(checkAdaptiveCard).optional()
+    .describe('Adaptive Card JSON (type "AdaptiveCard", version up to 1.5) to post as an attachment, e.g. for tables and link buttons'),
+  messageType: z.enum(['chat', 'channel'])
+    .default('chat')
+    .describe('Type of message (chat for direct message, channel for channel message)'),
+  replyToMessageId: z.string().min(1).optional()
+    .describe('Channel messages only: ID of the message (from getChannelMessages) whose thread to reply in'),
+  mentions: z.array(z.string().min(1)).default([])
+    .describe('People to @mention by name or email, or "channel"/"team" in channel messages. Write @<name or email>, @channel or @team in the message where each mention goes; otherwise it is placed at the start'),
+  idempotencyKey: z.string().min(1).max(64).optional()
+    .describe('Key identifying this send; repeating a call with the same key does not post twice. Without a key every call posts')
+}).refine(params => params.message || params.adaptiveCard, {
+  message: 'Provide a message, an adaptiveCard or both',
+  path: ['message']
+}).refine(params => typeof params.recipient === 'string' || params.messageType !== 'channel', {
+  message: 'Channel messages need a single channel path recipient',
+  path: ['recipient']
+}).refine(params => !params.replyToMessageId || isChannelRecipient(params), {
+  message: 'replyToMessageId requires a channel recipient',
+  path: ['replyToMessageId']
+}).refine(params => isChannelRecipient(params) || params.mentions.every(mention => !isConversationMention(mention)), {
+  message: 'Channel and team mentions are only possible in channel messages',
+  path: ['mentions']
+});
+
+const ListChannelsSchema = z.object({
+  teamId: z.string().min(1).describe('Team ID from listTeams'),
+  nameContains: z.string().optional().describe('Only channels whose name contains this text (case-insensitive)'),
+  top: z.number().int().min(1).max(100).default(50).describe('Maximum number of channels to return'),
+  cursor: pageCursor()
+});
+
+const ListTeamsSchema = z.object({
+  top: z.number().int().min(1).max(100).default(50).describe('Maximum number of teams to return'),
+  cursor: pageCursor()
+});
+
+const GetRecentChatsSchema = z.object({
+  chatType: z.enum(['oneOnOne', 'group', 'meeting']).optional().describe('Only chats of this type'),
+  members: z.array(z.string().min(1)).optional()
+    .describe('Only chats including all of these members (name or email, partial match)'),
+  topicContains: z.string().optional().describe('Only chats whose topic contains this text (case-insensitive)'),
+  top: z.number().int().min(1).max(50).default(20).describe('Maximum number of chats to return'),
+  cursor: pageCursor()
+});
+
+const ChatIdArgument = z.string().refine(isChatId, 'Expected a chat ID like 19:...@thread.v2');
+
+const UpdateGroupChatSchema = z.object({
+  chatId: ChatIdArgument.describe('ID of the group chat, from sendTeamsMessage or getRecentChats'),
+  topic: z.string().min(1).max(250).optional().describe('New chat topic'),
+  addMembers: z.array(z.string().min(1)).default([]).describe('Names or email addresses of people to add'),
+  removeMembers: z.array(z.string().min(1)).default([]).describe('Names or email addresses of people to remove'),
+  shareHistory: z.boolean().default(true).describe('Let added members see the earlier chat history')
+}).refine(params => params.topic || params.addMembers.length > 0 || params.removeMembers.length > 0, {
+  message: 'Provide a topic, addMembers or removeMembers',
+  path: ['topic']
+});
+
+const ChannelPathArgument = z.string()
+  .regex(CHANNEL_PATH, 'Expected a channel path like /teams/{teamId}/channels/{channelId}')
+  .describe('Channel path from listChannels');
+
+const MessageReadOptions = {
+  since: isoDateTime('Only messages created (for channels: changed) after this time; without an offset it is UTC').optional(),
+  bodyFormat: z.enum(['text', 'markdown', 'html']).default('text').describe('Format of message bodies'),
+  top: z.number().int().min(1).max(50).default(20).describe('Maximum number of messages to return'),
+  cursor: pageCursor()
+};
+
+const GetChatMessagesSchema = z.object({
+  chatId: ChatIdArgument.describe('Chat ID from getRecentChats'),
+  ...MessageReadOptions
+});
+
+const GetChannelMessagesSchema = z.object({
+  channelPath: ChannelPathArgument,
+  ...MessageReadOptions
+});
+
+const GetMessageRepliesSchema = z.object({
+  channelPath: ChannelPathArgument,
+  messageId: z.string().min(1).describe('ID of the channel message that starts the thread'),
+  ...MessageReadOptions
+});
+
+interface OutgoingMessage {
+  body: MessageBody;
+  mentions?: ChatMessageMention[];
+  attachments?: ChatMessageAttachment[];
+}
+
+// An existing chat, or the request body that creates it
+interface ChatTarget {
+  id?: string;
+  newChat?: any;
+  members: string[];
+  // Key of the chat ID in the lookup cache
+  cacheKey?: string;
+}
+
+export type SendTeamsMessageParams = z.input<typeof SendTeamsMessageSchema>;
+export type ListTeamsParams = z.input<typeof ListTeamsSchema>;
+export type ListChannelsParams = z.input<typeof ListChannelsSchema>;
+export type GetRecentChatsParams = z.input<typeof GetRecentChatsSchema>;
+export type UpdateGroupChatParams = z.input<typeof UpdateGroupChatSchema>;
+export type GetChatMessagesParams = z.input<typeof GetChatMessagesSchema>;
+export type GetChannelMessagesParams = z.input<typeof GetChannelMessagesSchema>;
+export type GetMessageRepliesParams = z.input<typeof GetMessageRepliesSchema>;
+
+export function registerTeamsTools(registry: ToolRegistry, features: ConnectorConfig['features']): void {
+  registry.register({
+    name: 'sendTeamsMessage',
+    description: 'Send a message to a Teams channel or chat',
+    inputSchema: SendTeamsMessageSchema,
+    delegatedOnly: true,
+    writes: true,
+    handler: (args, { teams }, context) => teams.sendTeamsMessage(args, context)
+  });
+
+  registry.register({
+    name: 'listTeams',
+    description: 'List all Teams that the user is a member of',
+    inputSchema: ListTeamsSchema,
+    handler: (args, { teams }) => teams.listTeams(args)
+  });
+
+  registry.register({
+    name: 'listChannels',
+    description: 'List the channels of a team, including the channel path sendTeamsMessage needs',
+    inputSchema: ListChannelsSchema,
+    handler: (args, { teams }) => teams.listChannels(args)
+  });
+
+  registry.register({
+    name: 'getRecentChats',
+    description: 'List recent chats, optionally filtered by type, members or topic',
+    inputSchema: GetRecentChatsSchema,
+    handler: (args, { teams }) => teams.getRecentChats(args)
+  });
+
+  registry.register({
+    name: 'updateGroupChat',
+    description: 'Rename a group chat or add and remove its members',
+    inputSchema: UpdateGroupChatSchema,
+    delegatedOnly: true,
+    writes: true,
+    handler: (args, { teams }, context) => teams.updateGroupChat(args, context)
+  });
+
+  registry.register({
+    name: 'getChatMessages',
+    description: 'Read recent messages of a chat, newest first, with sender, time, mentions and attachments',
+    inputSchema: GetChatMessagesSchema,
+    handler: (args, { teams }) => teams.getChatMessages(args)
+  });
+
+  // Both need ChannelMessage.Read.All, which is only requested when enabled
+  if (!features.channelMessages) {
+    return;
+  }
+
+  registry.register({
+    name: 'getChannelMessages',
+    description: 'Read recent top-level messages of a channel, with sender, time, mentions and attachments',
+    inputSchema: GetChannelMessagesSchema,
+    handler: (args, { teams }) => teams.getChannelMessages(args)
+  });
+
+  registry.register({
+    name: 'getMessageReplies',
+    description: 'Read the replies in a channel message thread',
+    inputSchema: GetMessageRepliesSchema,
+    handler: (args, { teams }) => teams.getMessageReplies(args)
+  });
+}
+
+function isChannelRecipient(params: { recipient: string | string[]; messageType?: string | undefined }): boolean {
+  return typeof params.recipient === 'string' &&
+    (params.messageType === 'channel' || params.recipient.includes('/channels/') || isChannelName(params.recipient));
+}
+
+function isConversationMention(mention: string): mention is 'channel' | 'team' {
+  return mention === 'channel' || mention === 'team';
+}
+
+function conversationMember(userId: string, visibleHistoryStartDateTime?: string) {
+  return {
+    '@odata.type': '#microsoft.graph.aadUserConversationMember',
+    roles: ['owner'],
+    'user@odata.bind': `https://graph.microsoft.com/v1.0/users('${userId}')`,
+    ...(visibleHistoryStartDateTime && { visibleHistoryStartDateTime })
+  };
+}
+
+function describeMentions(chatMessage: OutgoingMessage): string[] {
+  return chatMessage.mentions
+    ? [`Mentions: ${chatMessage.mentions.map(mention => mention.mentionText).join(', ')}`]
+    : [];
+}
+
+// Chat IDs look like 19:abc...@thread.v2, or 19:...@unq.gbl.spaces for one-on-one chats
+function isChatId(value: string): boolean {
+  return /^19:[^/?#]+@(thread\.(v2|skype)|unq\.gbl\.spaces)$/.test(value);
+}
+
+function chatPath(chatId: string): string {
+  return `/chats/${encodeURIComponent(chatId)}`;
+}
 
 export class TeamsTools {
-  constructor(private graphClient: Client) {}
+  constructor(
+    private graphClient: Client,
+    private userPath: string = '/me',
+    private cache: LookupCache = new LookupCache(),
+    private directory: DirectoryResolver = new DirectoryResolver(graphClient, userPath, cache),
+    private mailboxZone: MailboxTimeZone = new MailboxTimeZone(graphClient, userPath)
+  ) {}
 
-  async sendTeamsMessage(params: {
-    recipient: string;
-    message: string;
-    messageType?: 'chat' | 'channel';
-  }): Promise<any> {
+  async sendTeamsMessage(params: SendTeamsMessageParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
     try {
-      console.log(`Sending ${params.messageType || 'chat'} message to: ${params.recipient}`);
+      logger.info(`Sending ${params.messageType || 'chat'} message to: ${[params.recipient].flat().join(', ')}`);
       
-      if (params.messageType === 'channel' || params.recipient.includes('/channels/')) {
-        // Send to channel
-        return await this.sendChannelMessage(params.recipient, params.message);
+      if (typeof params.recipient === 'string' && isChannelRecipient(params)) {
+        const channelPath = isChannelName(params.recipient)
+          ? (await this.directory.findChannel(params.recipient)).path
+          : params.recipient;
+        if (!CHANNEL_PATH.test(channelPath)) {
+          throw new Error(`Expected a channel path like /teams/{teamId}/channels/{channelId}, got ${channelPath}`);
+        }
+        const chatMessage = await this.buildChatMessage(params, channelPath);
+
+        // Send to channel, or to a thread in it
+        return await this.sendChannelMessage(channelPath, chatMessage, params.idempotencyKey, params.replyToMessageId, context);
       } else {
+        const chatMessage = await this.buildChatMessage(params, params.recipient);
+
         // Send to chat
-        return await this.sendChatMessage(params.recipient, params.message);
+        return await this.sendChatMessage(params.recipient, chatMessage, params.idempotencyKey, params.topic, context);
       }
     } catch (error: any) {
-      console.error('Failed to send Teams message:', error);
+      logger.error('Failed to send Teams message', { error });
       return {
         content: [{
           type: 'text',
@@ -30,116 +282,407 @@ export class TeamsTools {
     }
   }
 
-  private async sendChatMessage(recipient: string, message: string): Promise<any> {
+  private async sendChatMessage(
+    recipient: string | string[],
+    chatMessage: OutgoingMessage,
+    idempotencyKey: string | undefined,
+    topic: string | undefined,
+    context: ToolCallContext
+  ): Promise<any> {
     try {
-      // First, find or create a chat with the recipient
-      const chat = await this.findOrCreateChat(recipient);
-      
-      // Send message to the chat
-      const chatMessage = {
-        body: {
-          content: message,
-          contentType: 'text'
+      // Use the chat directly when given its ID, otherwise find one with the recipients
+      const target: ChatTarget = Array.isArray(recipient)
+        ? await this.findGroupChat(recipient, topic)
+        : isChatId(recipient)
+          ? { id: recipient, members: [] }
+          : await this.findChat(recipient);
+
+      if (context.dryRun) {
+        return previewResult([
+          target.id ? `Would post to chat ${target.id}` : 'Would create a new chat and post to it',
+          ...(target.members.length > 0 ? [`Recipients: ${target.members.join(', ')}`] : []),
+          ...describeMentions(chatMessage)
+        ], [
+          ...(target.newChat ? [{ method: 'POST' as const, url: '/chats', body: target.newChat }] : []),
+          { method: 'POST', url: `${target.id ? chatPath(target.id) : '/chats/{new chat ID}'}/messages`, body: chatMessage }
+        ]);
+      }
+
+      let chatId = target.id;
+      if (!chatId) {
+        logger.info(`Creating new chat with ${target.members.join(', ')}`);
+        chatId = (await this.graphClient.api('/chats').post(target.newChat)).id as string;
+        if (target.cacheKey) {
+          this.cache.set('chats', target.cacheKey, chatId);
         }
-      };
+      }
 
-      const sentMessage = await this.graphClient
-        .api(`/chats/${chat.id}/messages`)
-        .post(chatMessage);
+      // Send message to the chat
+      let sentMessage;
+      try {
+        sentMessage = await this.graphClient
+          .api(`${chatPath(chatId)}/messages`)
+          .middlewareOptions(idempotencyOptions(idempotencyKey))
+          .post(chatMessage);
+      } catch (error) {
+        // The chat may have been deleted or left since it was cached
+        this.forgetChat(chatId);
+        throw error;
+      }
 
       return {
         content: [{
           type: 'text',
-          text: `Message sent successfully to ${recipient}\nMessage ID: ${sentMessage.id}`
+          text: Array.isArray(recipient)
+            ? `Message sent successfully to ${recipient.join(', ')}\nChat ID: ${chatId}\nMessage ID: ${sentMessage.id}`
+            : `Message sent successfully to ${recipient}\nMessage ID: ${sentMessage.id}`
         }]
       };
     } catch (error: any) {
-      console.error('Failed to send chat message:', error);
+      logger.error('Failed to send chat message', { error });
       throw new Error(`Failed to send chat message: ${error.message}`);
     }
   }
 
-  private async sendChannelMessage(channelPath: string, message: string): Promise<any> {
+  private async sendChannelMessage(
+    channelPath: string,
+    chatMessage: OutgoingMessage,
+    idempotencyKey: string | undefined,
+    replyToMessageId: string | undefined,
+    context: ToolCallContext
+  ): Promise<any> {
     try {
-      const chatMessage = {
-        body: {
-          content: message,
-          contentType: 'text'
-        }
-      };
+      const url = replyToMessageId
+        ? `${channelPath}/messages/${encodeURIComponent(replyToMessageId)}/replies`
+        : `${channelPath}/messages`;
+
+      if (context.dryRun) {
+        return previewResult([
+          replyToMessageId
+            ? `Would reply in thread ${replyToMessageId} of channel ${channelPath}`
+            : `Would post to channel ${channelPath}`,
+          ...describeMentions(chatMessage)
+        ], [{ method: 'POST', url, body: chatMessage }]);
+      }
 
       const sentMessage = await this.graphClient
-        .api(`${channelPath}/messages`)
+        .api(url)
+        .middlewareOptions(idempotencyOptions(idempotencyKey))
         .post(chatMessage);
 
       return {
         content: [{
           type: 'text',
-          text: `Message sent to channel successfully\nMessage ID: ${sentMessage.id}`
+          text: replyToMessageId
+            ? `Reply sent to thread ${replyToMessageId} successfully\nMessage ID: ${sentMessage.id}`
+            : `Message sent to channel successfully\nMessage ID: ${sentMessage.id}`
         }]
       };
     } catch (error: any) {
-      console.error('Failed to send channel message:', error);
+      logger.error('Failed to send channel message', { error });
       throw new Error(`Failed to send channel message: ${error.message}`);
     }
   }
 
-  private async findOrCreateChat(userEmail: string): Promise<any> {
+  private async buildChatMessage(params: SendTeamsMessageParams, recipient: string | string[]): Promise<OutgoingMessage> {
+    const message = params.message || '';
+    const format = params.format || 'text';
+    const mentions = params.mentions || [];
+
+    if (format === 'text' && mentions.length === 0 && !params.adaptiveCard) {
+      return { body: { content: message, contentType: 'text' } };
+    }
+
+    const resolved: ResolvedMention[] = [];
+    for (const mention of mentions) {
+      resolved.push(await this.resolveMention(mention, recipient));
+    }
+    const chatMessage: OutgoingMessage = buildMentionBody(toMessageHtml(message, format), resolved);
+
+    if (params.adaptiveCard) {
+      // The body references the card attachment by ID to place it in the message
+      const attachmentId = randomUUID();
+      chatMessage.body.content += `<attachment id="${attachmentId}"></attachment>`;
+      chatMessage.attachments = [{
+        id: attachmentId,
+        contentType: ADAPTIVE_CARD_CONTENT_TYPE,
+        content: JSON.stringify(params.adaptiveCard)
+      }];
+    }
+    if (chatMessage.mentions?.length === 0) {
+      delete chatMessage.mentions;
+    }
+    return chatMessage;
+  }
+
+  private async resolveMention(mention: string, recipient: string | string[]): Promise<ResolvedMention> {
+    if (!isConversationMention(mention)) {
+      const user = await this.directory.getUser(mention);
+      return { kind: 'user', token: `@${mention}`, userId: user.id, displayName: user.displayName };
+    }
+
+    const match = typeof recipient === 'string' ? /^\/teams\/([^/]+)\/channels\/([^/]+)/.exec(recipient) : null;
+    if (!match) {
+      throw new Error(`@${mention} mentions need a channel path recipient`);
+    }
+
+    const [, teamId, channelId] = match;
+    const target = mention === 'team'
+      ? await this.graphClient.api(`/teams/${encodeURIComponent(teamId!)}`).select('id,displayName').get()
+      : await this.graphClient.api(`/teams/${encodeURIComponent(teamId!)}/channels/${encodeURIComponent(channelId!)}`)
+        .select('id,displayName').get();
+    return {
+      kind: mention,
+      token: `@${mention}`,
+      conversationId: target.id,
+      displayName: target.displayName
+    };
+  }
+
+  private async findChat(userName: string): Promise<ChatTarget> {
     try {
-      // Get user ID from email
-      const user = await this.graphClient
-        .api(`/users/${userEmail}`)
-        .select('id,displayName')
-        .get();
-
-      // Try to find existing chat
-      const chats = await this.graphClient
-        .api('/me/chats')
-        .filter(`chatType eq 'oneOnOne'`)
-        .expand('members')
-        .get();
-
-      // Look for existing chat with this user
-      for (const chat of chats.value) {
-        const memberIds = chat.members?.map((m: any) => m.userId) || [];
-        if (memberIds.includes(user.id)) {
-          console.log(`Found existing chat with ${userEmail}`);
-          return chat;
-        }
+      // Get user ID from name or email
+      const [user] = await this.resolveUsers([userName]);
+      const members = [describePerson(user!)];
+
+      // Look through every page of one-on-one chats; stopping at the first page
+      // would create a duplicate chat when the existing one is further down
+      const cacheKey = `oneOnOne:${user!.id}`;
+      const existingId = await this.cache.get('chats', cacheKey, async () => {
+        const existing = await collectPages(this.graphClient, this.graphClient
+          .api(`${this.userPath}/chats`)
+          .filter(`chatType eq 'oneOnOne'`)
+          .expand('members'), {
+          maxItems: 1,
+          filter: (chat: any) => (chat.members || []).some((m: any) => m.userId === user!.id)
+        });
+        return existing.items[0]?.id as string | undefined;
+      });
+
+      if (existingId) {
+        logger.info(`Found existing chat with ${user!.email}`);
+        return { id: existingId, members, cacheKey };
+      }
+
+      // Like group chats, a new one-on-one chat lists the signed-in user as a member too
+      const me = await this.currentUser();
+      return {
+        newChat: {
+          chatType: 'oneOnOne',
+          members: [me.id, user!.id].map(id => conversationMember(id))
+        },
+        members,
+        cacheKey
+      };
+    } catch (error: any) {
+      logger.error('Failed to find chat', { error });
+      throw new Error(`Failed to find chat with ${userName}: ${error.message}`);
+    }
+  }
+
+  private currentUser(): Promise<{ id: string }> {
+    return this.cache.get('users', `self:${this.userPath}`, async () => (
+      { id: (await this.graphClient.api(this.userPath).select('id').get()).id as string }
+    ));
+  }
+
+  private async findGroupChat(names: string[], topic?: string): Promise<ChatTarget> {
+    try {
+      const me = await this.currentUser();
+      const users = await this.resolveUsers(names);
+      const others = [...new Map(users.filter(user => user.id !== me.id).map(user => [user.id, user])).values()];
+
+      if (others.length === 0) {
+        throw new Error('The recipients only include yourself');
+      }
+      if (others.length === 1) {
+        return await this.findChat(others[0]!.email);
       }
 
-      // Create new chat if not found
-      console.log(`Creating new chat with ${userEmail}`);
-      const newChat = {
-        chatType: 'oneOnOne',
-        members: [
-          {
-            '@odata.type': '#microsoft.graph.aadUserConversationMember',
-            roles: ['owner'],
-            'user@odata.bind': `https://graph.microsoft.com/v1.0/users('${user.id}')`
+      // Reuse a group chat with exactly these members, so repeated sends stay in one conversation
+      const members = others.map(describePerson);
+      const memberIds = new Set([me.id, ...others.map(user => user.id)]);
+      const cacheKey = `group:${[...memberIds].sort().join(',')}`;
+      const existingId = await this.cache.get('chats', cacheKey, async () => {
+        const existing = await collectPages(this.graphClient, this.graphClient
+          .api(`${this.userPath}/chats`)
+          .filter(`chatType eq 'group'`)
+          .expand('members'), {
+          maxItems: 1,
+          filter: (chat: any) => {
+            const chatMemberIds = new Set((chat.members || []).map((m: any) => m.userId));
+            return chatMemberIds.size === memberIds.size && [...memberIds].every(id => chatMemberIds.has(id));
           }
-        ]
+        });
+        return existing.items[0]?.id as string | undefined;
+      });
+
+      if (existingId) {
+        logger.info(`Found existing group chat with ${others.map(user => user.email).join(', ')}`);
+        return { id: existingId, members, cacheKey };
+      }
+
+      // Group chats must list the signed-in user as a member too
+      return {
+        newChat: {
+          chatType: 'group',
+          ...(topic && { topic }),
+          members: [me.id, ...others.map(user => user.id)].map(id => conversationMember(id))
+        },
+        members,
+        cacheKey
       };
+    } catch (error: any) {
+      logger.error('Failed to find group chat', { error });
+      throw new Error(`Failed to find group chat with ${names.join(', ')}: ${error.message}`);
+    }
+  }
 
-      return await this.graphClient
-        .api('/chats')
-        .post(newChat);
+  private async resolveUsers(names: string[]): Promise<DirectoryUser[]> {
+    const users: DirectoryUser[] = [];
+    for (const name of names) {
+      try {
+        users.push(await this.directory.getUser(name));
+      } catch (error: any) {
+        throw new Error(`Could not find user ${name}: ${error.message}`);
+      }
+    }
+    return users;
+  }
+
+  async updateGroupChat(params: UpdateGroupChatParams, context: ToolCallContext = { dryRun: false }): Promise<any> {
+    const { chatId } = params;
+    try {
+      logger.info(`Updating group chat: ${chatId}`);
+
+      const chat = await this.graphClient.api(chatPath(chatId)).select('id,chatType,topic').get();
+      if (chat.chatType !== 'group') {
+        return {
+          content: [{
+            type: 'text',
+            text: `Chat ${chatId} is a ${chat.chatType} chat; only group chats can be renamed or change members.`
+          }],
+          isError: true
+        };
+      }
+
+      // Resolve every change first, so a dry run shows exactly what would be sent
+      const changes: Array<{ action: string; request: RequestPreview }> = [];
+      const failed: string[] = [];
+
+      if (params.topic) {
+        changes.push({
+          action: `Rename to "${params.topic}"`,
+          request: { method: 'PATCH', url: chatPath(chatId), body: { topic: params.topic } }
+        });
+      }
+
+      const historyStart = params.shareHistory === false ? undefined : '0001-01-01T00:00:00Z';
+      for (const email of params.addMembers || []) {
+        try {
+          const [user] = await this.resolveUsers([email]);
+          changes.push({
+            action: `Add ${describePerson(user!)}`,
+            request: { method: 'POST', url: `${chatPath(chatId)}/members`, body: conversationMember(user!.id, historyStart) }
+          });
+        } catch (error: any) {
+          failed.push(`Could not add ${email}: ${error.message}`);
+        }
+      }
+
+      if ((params.removeMembers || []).length > 0) {
+        const members = await collectPages(this.graphClient, this.graphClient.api(`${chatPath(chatId)}/members`), {
+          maxItems: 250
+        });
+        for (const email of params.removeMembers || []) {
+          try {
+            const [user] = await this.resolveUsers([email]);
+            const member = members.items.find((m: any) => m.userId === user!.id);
+            if (!member) {
+              failed.push(`${email} is not a member of this chat`);
+              continue;
+            }
+            changes.push({
+              action: `Remove ${describePerson(user!)}`,
+              request: { method: 'DELETE', url: `${chatPath(chatId)}/members/${encodeURIComponent(member.id)}` }
+            });
+          } catch (error: any) {
+            failed.push(`Could not remove ${email}: ${error.message}`);
+          }
+        }
+      }
+
+      if (context.dryRun) {
+        if (failed.length > 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Cannot update group chat ${chatId}:\n${failed.map(line => `❌ ${line}`).join('\n')}`
+            }],
+            isError: true
+          };
+        }
+        return previewResult(
+          [`Would update group chat ${chatId}${chat.topic ? ` (${chat.topic})` : ''}:`, ...changes.map(change => `- ${change.action}`)],
+          changes.map(change => change.request)
+        );
+      }
+
+      // Changes are applied one at a time, so one failure does not stop the rest
+      const done: string[] = [];
+      for (const { action, request } of changes) {
+        try {
+          const api = this.graphClient.api(request.url);
+          await (request.method === 'PATCH' ? api.patch(request.body)
+            : request.method === 'POST' ? api.post(request.body)
+              : api.delete());
+          done.push(action);
+        } catch (error: any) {
+          failed.push(`${action} failed: ${error.message}`);
+        }
+      }
+
+      // The chat is cached under its old member list
+      if (changes.some(change => change.request.method !== 'PATCH')) {
+        this.forgetChat(chatId);
+      }
+
+      const lines = [...done.map(line => `✅ ${line}`), ...failed.map(line => `❌ ${line}`)];
+      return {
+        content: [{
+          type: 'text',
+          text: `Group chat ${chatId}${chat.topic ? ` (${chat.topic})` : ''}:\n${lines.join('\n')}`
+        }],
+        ...(failed.length > 0 && { isError: true })
+      };
     } catch (error: any) {
-      console.error('Failed to find or create chat:', error);
-      throw new Error(`Failed to find or create chat with ${userEmail}: ${error.message}`);
+      logger.error('Failed to update group chat', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to update group chat: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
     }
   }
 
-  async listTeams(): Promise<any> {
+  private forgetChat(chatId: string): void {
+    this.cache.invalidate('chats', (_key, cachedId) => cachedId === chatId);
+  }
+
+  async listTeams(params: ListTeamsParams = {}): Promise<any> {
     try {
-      console.log('Retrieving user\'s Teams');
+      logger.info('Retrieving user\'s Teams');
       
-      const teams = await this.graphClient
-        .api('/me/joinedTeams')
-        .select('id,displayName,description,webUrl')
-        .get();
+      const teams = await collectPages(this.graphClient, this.graphClient
+        .api(`${this.userPath}/joinedTeams`)
+        .select('id,displayName,description,webUrl'), {
+        maxItems: params.top || 50,
+        cursor: params.cursor
+      });
 
-      if (!teams.value || teams.value.length === 0) {
+      if (teams.items.length === 0) {
         return {
           content: [{
             type: 'text',
@@ -148,7 +691,7 @@ export class TeamsTools {
         };
       }
 
-      const teamList = teams.value.map((team: any, index: number) => {
+      const teamList = teams.items.map((team: any, index: number) => {
         let text = `${index + 1}. **${team.displayName}**`;
         text += `\n   ID: ${team.id}`;
         
@@ -166,11 +709,13 @@ export class TeamsTools {
       return {
         content: [{
           type: 'text',
-          text: `Your Teams (${teams.value.length} total):\n\n${teamList}`
+          text: `Your Teams (${teams.items.length} shown):\n\n${teamList}\n\n` +
+            'Use listChannels with a team ID to find channel paths for sendTeamsMessage.' +
+            formatCursorHint(teams.nextCursor)
         }]
       };
     } catch (error: any) {
-      console.error('Failed to list teams:', error);
+      logger.error('Failed to list teams', { error });
       return {
         content: [{
           type: 'text',
@@ -181,25 +726,34 @@ export class TeamsTools {
     }
   }
 
-  async listChannels(teamId: string): Promise<any> {
+  async listChannels(params: ListChannelsParams): Promise<any> {
+    const { teamId } = params;
     try {
-      console.log(`Retrieving channels for team: ${teamId}`);
+      logger.info(`Retrieving channels for team: ${teamId}`);
       
-      const channels = await this.graphClient
-        .api(`/teams/${teamId}/channels`)
-        .select('id,displayName,description,webUrl,membershipType')
-        .get();
+      // The channels endpoint does not support $top or substring filters, so filter locally
+      const nameFilter = params.nameContains?.toLowerCase();
+      const channels = await collectPages(this.graphClient, this.graphClient
+        .api(`/teams/${encodeURIComponent(teamId)}/channels`)
+        .select('id,displayName,description,webUrl,membershipType'), {
+        maxItems: params.top || 50,
+        cursor: params.cursor,
+        filter: (channel: any) => !nameFilter || channel.displayName?.toLowerCase().includes(nameFilter)
+      });
+      const matching = channels.items;
 
-      if (!channels.value || channels.value.length === 0) {
+      if (matching.length === 0) {
         return {
           content: [{
             type: 'text',
-            text: `No channels found for this team.`
+            text: nameFilter
+              ? `No channels matching "${params.nameContains}" found for this team.`
+              : `No channels found for this team.`
           }]
         };
       }
 
-      const channelList = channels.value.map((channel: any, index: number) => {
+      const channelList = matching.map((channel: any, index: number) => {
         let text = `${index + 1}. **${channel.displayName}**`;
         text += `\n   ID: ${channel.id}`;
         text += `\n   Type: ${channel.membershipType || 'standard'}`;
@@ -221,11 +775,12 @@ export class TeamsTools {
       return {
         content: [{
           type: 'text',
-          text: `Channels in team (${channels.value.length} total):\n\n${channelList}`
+          text: `Channels in team (${matching.length} shown):\n\n${channelList}` +
+            formatCursorHint(channels.nextCursor)
         }]
       };
     } catch (error: any) {
-      console.error('Failed to list channels:', error);
+      logger.error('Failed to list channels', { error });
       return {
         content: [{
           type: 'text',
@@ -236,18 +791,40 @@ export class TeamsTools {
     }
   }
 
-  async getRecentChats(): Promise<any> {
+  async getRecentChats(params: GetRecentChatsParams = {}): Promise<any> {
+    const top = params.top || 20;
     try {
-      console.log('Retrieving recent chats');
+      logger.info('Retrieving recent chats');
       
-      const chats = await this.graphClient
-        .api('/me/chats')
+      let request = this.graphClient
+        .api(`${this.userPath}/chats`)
         .orderby('lastUpdatedDateTime desc')
-        .top(20)
-        .expand('members')
-        .get();
+        .top(top)
+        .expand('members');
 
-      if (!chats.value || chats.value.length === 0) {
+      if (params.chatType) {
+        request = request.filter(`chatType eq '${params.chatType}'`);
+      }
+
+      // Member and topic filters have no server-side equivalent
+      const memberFilters = (params.members || []).map(member => member.toLowerCase());
+      const topicFilter = params.topicContains?.toLowerCase();
+      const chats = await collectPages(this.graphClient, request, {
+        maxItems: top,
+        cursor: params.cursor,
+        filter: (chat: any) => {
+          if (topicFilter && !chat.topic?.toLowerCase().includes(topicFilter)) {
+            return false;
+          }
+
+          return memberFilters.every(filter => (chat.members || []).some((m: any) =>
+            m.displayName?.toLowerCase().includes(filter) || m.email?.toLowerCase().includes(filter)
+          ));
+        }
+      });
+      const matching = chats.items;
+
+      if (matching.length === 0) {
         return {
           content: [{
             type: 'text',
@@ -256,7 +833,8 @@ export class TeamsTools {
         };
       }
 
-      const chatList = chats.value.map((chat: any, index: number) => {
+      const zone = await this.mailboxZone.get();
+      const chatList = matching.map((chat: any, index: number) => {
         let text = `${index + 1}. **${chat.chatType}** chat`;
         text += `\n   ID: ${chat.id}`;
         
@@ -276,8 +854,7 @@ export class TeamsTools {
         }
         
         if (chat.lastUpdatedDateTime) {
-          const lastUpdated = new Date(chat.lastUpdatedDateTime);
-          text += `\n   Last Updated: ${lastUpdated.toLocaleString()}`;
+          text += `\n   Last Updated: ${formatDateTime(new Date(chat.lastUpdatedDateTime), zone)}`;
         }
         
         return text;
@@ -286,11 +863,13 @@ export class TeamsTools {
       return {
         content: [{
           type: 'text',
-          text: `Recent chats (${chats.value.length} total):\n\n${chatList}`
+          text: `Recent chats (${matching.length} shown):\n\n${chatList}\n\n` +
+            'Pass a chat ID as the sendTeamsMessage recipient to reply in that chat.' +
+            formatCursorHint(chats.nextCursor)
         }]
       };
     } catch (error: any) {
-      console.error('Failed to get recent chats:', error);
+      logger.error('Failed to get recent chats', { error });
       return {
         content: [{
           type: 'text',
@@ -300,4 +879,133 @@ export class TeamsTools {
       };
     }
   }
-}
\ No newline at end of file
+
+  async getChatMessages(params: GetChatMessagesParams): Promise<any> {
+    try {
+      logger.info(`Retrieving messages of chat: ${params.chatId}`);
+
+      const request = this.graphClient
+        .api(`${chatPath(params.chatId)}/messages`)
+        .top(params.top || 20);
+
+      if (!params.since) {
+        request.orderby('createdDateTime desc');
+        return await this.readMessages(request, params, `Messages in chat ${params.chatId}, newest first`);
+      }
+
+      // Graph filters chat messages only by lastModifiedDateTime, which edits and reactions move
+      // forward, so messages written before the cutoff are dropped here
+      const since = sinceTimestamp(params.since);
+      request
+        .filter(`lastModifiedDateTime gt ${since}`)
+        .orderby('lastModifiedDateTime desc');
+      return await this.readMessages(request, params, `Messages in chat ${params.chatId}, most recently changed first`,
+        undefined, (message: any) => Date.parse(message.createdDateTime) > Date.parse(since));
+    } catch (error: any) {
+      logger.error('Failed to get chat messages', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to get chat messages: ${error.message || 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  async getChannelMessages(params: GetChannelMessagesParams): Promise<any> {
+    try {
+      logger.info(`Retrieving messages of channel: ${params.channelPath}`);
+
+      // The messages list cannot be filtered by time; the delta query can
+      const request = params.since
+        ? this.graphClient
+          .api(`${params.channelPath}/messages/delta`)
+          .filter(`lastModifiedDateTime gt ${sinceTimestamp(params.since)}`)
+          .top(params.top || 20)
+        : this.graphClient
+          .api(`${params.channelPath}/messages`)
+          .top(params.top || 20);
+
+      return await this.readMessages(request, params, 'Channel messages',
+        'Use getMessageReplies with a message ID to read its thread.');
+    } catch (error: any) {
+      logger.error('Failed to get channel messages', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to get channel messages: ${describeChannelReadError(error)}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  async getMessageReplies(params: GetMessageRepliesParams): Promise<any> {
+    try {
+      logger.info(`Retrieving replies to message ${params.messageId} in ${params.channelPath}`);
+
+      const request = this.graphClient
+        .api(`${params.channelPath}/messages/${encodeURIComponent(params.messageId)}/replies`)
+        .top(params.top || 20);
+
+      // Replies cannot be filtered server-side; threads are short enough to filter locally
+      const since = params.since ? Date.parse(sinceTimestamp(params.since)) : undefined;
+      return await this.readMessages(request, params, `Replies to message ${params.messageId}`, undefined,
+        since === undefined ? undefined : (message: any) => Date.parse(message.createdDateTime) > since);
+    } catch (error: any) {
+      logger.error('Failed to get message replies', { error });
+      return {
+        content: [{
+          type: 'text',
+          text: `Failed to get message replies: ${describeChannelReadError(error)}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  private async readMessages(
+    request: GraphRequest,
+    params: { top?: number | undefined; cursor?: string | undefined; bodyFormat?: BodyFormat | undefined },
+    title: string,
+    hint?: string,
+    filter?: (message: any) => boolean
+  ): Promise<any> {
+    const messages = await collectPages(this.graphClient, request, {
+      maxItems: params.top || 20,
+      cursor: params.cursor,
+      ...(filter && { filter })
+    });
+
+    const result = {
+      messages: messages.items.map(message => toMessageSummary(message, params.bodyFormat || 'text')),
+      ...(messages.nextCursor && { nextCursor: messages.nextCursor })
+    };
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${title} (${result.messages.length} shown):\n\n${JSON.stringify(result, null, 2)}` +
+          (hint ? `\n\n${hint}` : '') +
+          formatCursorHint(messages.nextCursor)
+      }]
+    };
+  }
+}
+
+// Graph answers 403 when ChannelMessage.Read.All has not been consented to for the app
+function describeChannelReadError(error: any): string {
+  const message = error.message || 'Unknown error';
+  if (error.statusCode !== 403) {
+    return message;
+  }
+  return `${message.replace(/\.$/, '')}. Reading channel messages needs the ChannelMessage.Read.All permission, which an ` +
+    'administrator must grant to this app (admin consent) before you sign in again. ' +
+    'It is also denied for channels of teams you are not a member of.';
+}
+
+// Graph filters need an absolute UTC timestamp; times without an offset are taken as UTC
+function sinceTimestamp(value: string): string {
+  return parseDateTime(value, UTC).toISOString();
+}
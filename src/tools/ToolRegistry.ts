@@ -0,0 +1,229 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ConnectorConfig } from '../config/ConnectorConfig.js';
+import { ConfirmationStore } from './ConfirmationStore.js';
+import type { AuditLog } from '../audit/AuditLog.js';
+import { GraphCall, captureGraphCalls } from '../graph/GraphCallRecorder.js';
+import type { CalendarTools } from './CalendarTools.js';
+import type { MailTools } from './MailTools.js';
+import type { TeamsTools } from './TeamsTools.js';
+import type { DirectoryResolver } from '../directory/DirectoryResolver.js';
+import { zodToJsonSchema } from './zodToJsonSchema.js';
+import { createLogger } from '../logging/Logger.js';
+
+const logger = createLogger('tools');
+
+/**
+ * Authenticated tool implementations handed to tool handlers. Accessing a service
+ * before authentication has finished throws, which surfaces as an isError result.
+ */
+export interface ToolServices {
+  calendar: CalendarTools;
+  teams: TeamsTools;
+  mail: MailTools;
+  directory: DirectoryResolver;
+}
+
+/**
+ * Passed to write tools. With dryRun set they return a preview of the Graph
+ * requests they would send (see previewResult) instead of sending them.
+ */
+export interface ToolCallContext {
+  dryRun: boolean;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  // Graph only allows these operations with delegated (signed-in user) permissions
+  delegatedOnly?: boolean;
+  // Sends or changes data; previewed instead of executed in the dryRun and confirm safety modes
+  writes?: boolean;
+  handler: (args: z.infer<S>, services: ToolServices, context: ToolCallContext) => Promise<CallToolResult>;
+}
+
+export interface RequestPreview {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: unknown;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+  private confirmations: ConfirmationStore;
+
+  constructor(
+    private safety: ConnectorConfig['safety'] = { mode: 'off', confirmationTtlSeconds: 600 },
+    private auditLog?: AuditLog
+  ) {
+    this.confirmations = new ConfirmationStore(safety.confirmationTtlSeconds * 1000);
+  }
+
+  register<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(filter: (tool: ToolDefinition) => boolean = () => true): Tool[] {
+    return [...this.tools.values()]
+      .filter(filter)
+      .map(tool => {
+        const inputSchema = zodToJsonSchema(tool.inputSchema) as Tool['inputSchema'];
+        if (tool.writes && this.safety.mode === 'confirm') {
+          inputSchema.properties = {
+            ...inputSchema.properties,
+            confirmationToken: {
+              type: 'string',
+              description: 'Token from the preview of this exact call, once the user has approved it'
+            }
+          };
+        }
+        return { name: tool.name, description: tool.description, inputSchema };
+      });
+  }
+
+  async call(name: string, args: unknown, services: ToolServices): Promise<CallToolResult> {
+    const tool = this.get(name);
+    if (!tool) {
+      return errorResult(`Unknown tool: ${name}`);
+    }
+
+    // The confirmation token is not part of the tool's own arguments
+    const { confirmationToken, ...toolArgs } = (args ?? {}) as Record<string, unknown>;
+    const parsed = tool.inputSchema.safeParse(toolArgs);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => ({
+        field: issue.path.join('.') || '(arguments)',
+        message: issue.message
+      }));
+
+      return errorResult(
+        `Invalid arguments for ${name}:\n` +
+        issues.map(issue => `- ${issue.field}: ${issue.message}`).join('\n')
+      );
+    }
+
+    try {
+      if (!tool.writes) {
+        return await tool.handler(parsed.data, services, { dryRun: false });
+      }
+      if (this.safety.mode === 'off') {
+        return await this.executeWrite(tool, parsed.data, services);
+      }
+
+      if (this.safety.mode === 'confirm' && typeof confirmationToken === 'string') {
+        if (!this.confirmations.consume(confirmationToken, name, parsed.data)) {
+          return errorResult(
+            'The confirmation token is unknown, expired, already used or for different arguments. ' +
+            `Call ${name} without confirmationToken to get a new preview.`
+          );
+        }
+        logger.info(`Executing confirmed ${name}`);
+        return await this.executeWrite(tool, parsed.data, services);
+      }
+
+      const preview = await tool.handler(parsed.data, services, { dryRun: true });
+      if (preview.isError) {
+        return preview;
+      }
+      return this.safety.mode === 'dryRun'
+        ? prependText(preview, 'Dry run: nothing was sent or changed.')
+        : appendText(prependText(preview, 'Not executed yet: show this preview to the user and ask for approval.'),
+          `To proceed, call ${name} again with the same arguments and "confirmationToken": ` +
+          `"${this.confirmations.issue(name, parsed.data)}" ` +
+          `(valid once, for ${Math.round(this.safety.confirmationTtlSeconds / 60)} minutes).`);
+    } catch (error) {
+      logger.error(`Error executing tool ${name}`, { error });
+      return errorResult(`Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Runs a write tool and records it, with the Graph requests it sent, in the audit log
+  private async executeWrite(tool: ToolDefinition, args: unknown, services: ToolServices): Promise<CallToolResult> {
+    if (!this.auditLog) {
+      return await tool.handler(args, services, { dryRun: false });
+    }
+
+    const graphRequests: GraphCall[] = [];
+    let result: CallToolResult;
+    try {
+      result = await captureGraphCalls(graphRequests, () => tool.handler(args, services, { dryRun: false }));
+    } catch (error) {
+      await this.auditLog.record({
+        tool: tool.name,
+        arguments: args,
+        outcome: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        graphRequests
+      });
+      throw error;
+    }
+
+    const text = result.content[0]?.type === 'text' ? result.content[0].text : undefined;
+    await this.auditLog.record({
+      tool: tool.name,
+      arguments: args,
+      outcome: result.isError ? 'error' : 'success',
+      ...(result.isError && text && { error: text }),
+      graphRequests
+    });
+    return result;
+  }
+}
+
+export function errorResult(text: string): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text
+    }],
+    isError: true
+  };
+}
+
+/**
+ * What a write tool would do in dry-run: a summary followed by each Graph request.
+ */
+export function previewResult(summary: string[], requests: RequestPreview[]): CallToolResult {
+  const requestText = requests.map(request =>
+    `${request.method} ${request.url}` +
+    (request.body === undefined ? '' : `\n${JSON.stringify(request.body, null, 2)}`)
+  );
+  return {
+    content: [{
+      type: 'text',
+      text: `${summary.join('\n')}\n\nRequests:\n${requestText.join('\n\n')}`
+    }]
+  };
+}
+
+function prependText(result: CallToolResult, text: string): CallToolResult {
+  const [first, ...rest] = result.content;
+  return first?.type === 'text'
+    ? { ...result, content: [{ ...first, text: `${text}\n\n${first.text}` }, ...rest] }
+    : { ...result, content: [{ type: 'text', text }, ...result.content] };
+}
+
+function appendText(result: CallToolResult, text: string): CallToolResult {
+  return { ...result, content: [...result.content, { type: 'text', text }] };
+}
+
+/**
+ * ISO 8601 date/time string, with or without offset (e.g. 2025-07-11T14:00:00Z).
+ */
+export function isoDateTime(description: string) {
+  return z.string()
+    .refine(value => !isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date/time' })
+    .describe(description);
+}
+
+export function pageCursor() {
+  return z.string().optional().describe('Cursor from a previous call, to fetch the next page of results');
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the subset of zod used by tool input schemas into JSON Schema for tools/list.
+ * Unsupported zod types become an unconstrained schema rather than failing.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  if (schema.description && !result.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required })
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+      if (check.kind === 'email') result.format = 'email';
+      if (check.kind === 'datetime') result.format = 'date-time';
+      if (check.kind === 'url') result.format = 'uri';
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') result.type = 'integer';
+      if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  return {};
+}
@@ -0,0 +1,285 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { InitializeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import express, { NextFunction, Request, Response } from 'express';
+import { Server as NodeHttpServer } from 'node:http';
+import { timingSafeEqual } from 'crypto';
+import { ConnectorConfig, isLoopback } from '../config/ConnectorConfig.js';
+import { createLogger } from '../logging/Logger.js';
+import {
+  SESSION_HEADER,
+  StreamableHttpServerTransport,
+  writeJsonRpcError
+} from './StreamableHttpServerTransport.js';
+
+const logger = createLogger('http');
+
+interface Session {
+  server: Server;
+  transport: StreamableHttpServerTransport | SSEServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+type RouteHandler = (req: Request, res: Response) => Promise<void>;
+
+/**
+ * Serves MCP over HTTP so several clients can share one authenticated connector.
+ *
+ * - POST/GET/DELETE /mcp: Streamable HTTP, one session per initialize request
+ * - GET /sse + POST /messages: legacy HTTP+SSE transport for older clients
+ */
+export class HttpTransportServer {
+  private sessions = new Map<string, Session>();
+  private httpServer: NodeHttpServer | null = null;
+
+  constructor(
+    private config: ConnectorConfig['transport'],
+    private createServer: () => Server
+  ) {}
+
+  async start(): Promise<void> {
+    const app = express();
+    app.use((req, res, next) => this.checkOrigin(req, res, next));
+    app.use((req, res, next) => this.checkBearerToken(req, res, next));
+
+    app.post('/mcp', express.json({ limit: '4mb' }), route((req, res) => this.handleStreamablePost(req, res)));
+    app.get('/mcp', route((req, res) => this.withStreamableSession(req, res, (transport) => transport.handleGet(req, res))));
+    app.delete('/mcp', route((req, res) => this.withStreamableSession(req, res, async (transport) => {
+      await this.closeSession(transport.sessionId);
+      res.status(204).end();
+    })));
+
+    app.get('/sse', route((_req, res) => this.handleSseConnect(res)));
+    app.post('/messages', route((req, res) => this.handleSseMessage(req, res)));
+
+    // Body parser failures (malformed JSON, oversized bodies) as JSON-RPC errors
+    app.use((error: any, _req: Request, res: Response, next: NextFunction) => {
+      if (res.headersSent) {
+        next(error);
+        return;
+      }
+      logger.warn('Rejected malformed HTTP request', { error });
+      writeJsonRpcError(res, error.status || 400, -32700, `Parse error: ${error.message || 'invalid request body'}`);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer = app.listen(this.config.port, this.config.host, () => resolve());
+      this.httpServer.on('error', reject);
+    });
+
+    logger.info(`Listening for MCP clients on http://${this.config.host}:${this.config.port}/mcp`);
+  }
+
+  async stop(): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId);
+    }
+
+    await new Promise<void>((resolve) => {
+      if (!this.httpServer) {
+        resolve();
+        return;
+      }
+      this.httpServer.close(() => resolve());
+    });
+    this.httpServer = null;
+  }
+
+  /**
+   * Guards against DNS rebinding: a web page whose name resolves to 127.0.0.1 must
+   * not reach a loopback connector. Browsers send its origin and host name, so
+   * requests from other origins, or for other host names while bound to loopback,
+   * are refused. Clients outside a browser send no Origin.
+   */
+  private checkOrigin(req: Request, res: Response, next: NextFunction): void {
+    const origin = req.headers.origin;
+    const host = hostName(req.headers.host);
+
+    if (origin && !isLoopback(hostName(origin, true)) && !this.config.allowedOrigins.includes(origin)) {
+      logger.warn('Rejected HTTP request from a disallowed origin', { origin, path: req.path });
+      writeJsonRpcError(res, 403, -32000, `Forbidden: origin ${origin} is not allowed`);
+      return;
+    }
+
+    if (isLoopback(this.config.host) && !isLoopback(host)) {
+      logger.warn('Rejected HTTP request for a non-loopback host', { host: req.headers.host, path: req.path });
+      writeJsonRpcError(res, 403, -32000, `Forbidden: host ${req.headers.host || '(none)'} is not allowed`);
+      return;
+    }
+
+    next();
+  }
+
+  private checkBearerToken(req: Request, res: Response, next: NextFunction): void {
+    const expected = this.config.bearerToken;
+    if (!expected) {
+      next();
+      return;
+    }
+
+    const header = req.headers.authorization || '';
+    const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+    const wanted = Buffer.from(expected);
+    // timingSafeEqual throws on buffers of different byte lengths
+    const matches = provided.length === wanted.length && timingSafeEqual(provided, wanted);
+
+    if (!matches) {
+      logger.warn('Rejected HTTP request with missing or invalid bearer token', { path: req.path });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      writeJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    next();
+  }
+
+  private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    if (sessionId) {
+      await this.withStreamableSession(req, res, (transport) => transport.handlePost(req, res, req.body));
+      return;
+    }
+
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    if (!messages.some(message => InitializeRequestSchema.safeParse(message).success)) {
+      writeJsonRpcError(res, 400, -32000, `Bad Request: missing ${SESSION_HEADER} header`);
+      return;
+    }
+
+    const transport = new StreamableHttpServerTransport();
+    await this.openSession(transport.sessionId, transport);
+    transport.handlePost(req, res, req.body);
+  }
+
+  private async withStreamableSession(
+    req: Request,
+    res: Response,
+    handler: (transport: StreamableHttpServerTransport) => void | Promise<void>
+  ): Promise<void> {
+    const session = this.sessions.get(req.headers[SESSION_HEADER] as string || '');
+    if (!session || !(session.transport instanceof StreamableHttpServerTransport)) {
+      writeJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    this.touch(session);
+    await handler(session.transport);
+  }
+
+  private async handleSseConnect(res: Response): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    res.on('close', () => {
+      this.closeSession(transport.sessionId).catch((error) => {
+        logger.error('Failed to close SSE session', { error });
+      });
+    });
+    await this.openSession(transport.sessionId, transport);
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const session = this.sessions.get(req.query.sessionId as string || '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      writeJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  private async openSession(
+    sessionId: string,
+    transport: StreamableHttpServerTransport | SSEServerTransport
+  ): Promise<void> {
+    const server = this.createServer();
+    const session: Session = { server, transport };
+    this.sessions.set(sessionId, session);
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.sessions.delete(sessionId);
+      throw error;
+    }
+
+    // However the transport ends, forget the session so its server can be collected
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (this.sessions.get(sessionId) === session) {
+        this.sessions.delete(sessionId);
+        logger.info(`MCP session ended (${this.sessions.size} active)`, { sessionId });
+      }
+      previousOnClose?.();
+    };
+
+    this.touch(session);
+    logger.info(`MCP session opened (${this.sessions.size} active)`, { sessionId });
+  }
+
+  /**
+   * Restarts the idle timer of a Streamable HTTP session. Those sessions have no
+   * connection to notice a client going away, so unused ones are closed.
+   */
+  private touch(session: Session): void {
+    const { transport } = session;
+    if (!(transport instanceof StreamableHttpServerTransport)) {
+      return; // SSE sessions end with their connection
+    }
+
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      if (transport.hasOpenStream) {
+        this.touch(session);
+        return;
+      }
+      logger.info('Closing idle MCP session', { sessionId: transport.sessionId });
+      this.closeSession(transport.sessionId).catch((error) => {
+        logger.error('Failed to close idle session', { error });
+      });
+    }, this.config.sessionIdleMinutes * 60 * 1000);
+    session.idleTimer.unref();
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    clearTimeout(session.idleTimer);
+    await session.server.close();
+    logger.info(`MCP session closed (${this.sessions.size} active)`, { sessionId });
+  }
+}
+
+// Host name of a Host header ("localhost:3100") or, with isOrigin, of an Origin URL
+function hostName(value: string | undefined, isOrigin = false): string {
+  if (!value) {
+    return '';
+  }
+  try {
+    return new URL(isOrigin ? value : `http://${value}`).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Express 4 ignores rejected handler promises, which would leave the request
+ * unanswered; reply with a JSON-RPC internal error instead.
+ */
+function route(handler: RouteHandler): RouteHandler {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      logger.error(`Failed to handle ${req.method} ${req.path}`, { error });
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, -32603, 'Internal error');
+      } else {
+        res.end();
+      }
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'crypto';
+
+export const SESSION_HEADER = 'mcp-session-id';
+
+interface ResponseStream {
+  res: ServerResponse;
+  useSse: boolean;
+  remaining: Set<RequestId>;
+  responses: JSONRPCMessage[];
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport for a single session.
+ *
+ * Each POST carries one JSON-RPC message or a batch. Responses are returned on that
+ * POST, as an SSE stream when the client accepts one and as JSON otherwise.
+ * Notifications go to the standalone GET stream, or to an open POST stream.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  private standaloneStream: ServerResponse | null = null;
+  private pending = new Map<RequestId, ResponseStream>();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  // A client holding the GET stream open is still connected, even without requests
+  get hasOpenStream(): boolean {
+    return this.standaloneStream !== null;
+  }
+
+  async start(): Promise<void> {
+    // Nothing to do: HTTP requests are routed to this transport by the server
+  }
+
+  handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): void {
+    let messages: JSONRPCMessage[];
+    try {
+      messages = (Array.isArray(body) ? body : [body]).map(message => JSONRPCMessageSchema.parse(message));
+    } catch (error) {
+      this.onerror?.(error as Error);
+      writeJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON-RPC message');
+      return;
+    }
+
+    res.setHeader(SESSION_HEADER, this.sessionId);
+
+    const requestIds = messages
+      .filter(message => 'method' in message && 'id' in message)
+      .map(message => (message as { id: RequestId }).id);
+
+    if (requestIds.length === 0) {
+      // Only notifications or responses: acknowledge without a body
+      res.writeHead(202).end();
+    } else {
+      const stream: ResponseStream = {
+        res,
+        useSse: acceptsEventStream(req),
+        remaining: new Set(requestIds),
+        responses: []
+      };
+
+      if (stream.useSse) {
+        openEventStream(res);
+      }
+
+      for (const id of requestIds) {
+        this.pending.set(id, stream);
+      }
+
+      res.on('close', () => {
+        for (const id of stream.remaining) {
+          this.pending.delete(id);
+        }
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  handleGet(req: IncomingMessage, res: ServerResponse): void {
+    if (this.standaloneStream) {
+      writeJsonRpcError(res, 409, -32000, 'Conflict: an SSE stream is already open for this session');
+      return;
+    }
+
+    res.setHeader(SESSION_HEADER, this.sessionId);
+    openEventStream(res);
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = null;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if ('id' in message && ('result' in message || 'error' in message)) {
+      const stream = this.pending.get(message.id);
+      if (!stream) {
+        return; // The client disconnected before the response was ready
+      }
+
+      this.pending.delete(message.id);
+      stream.remaining.delete(message.id);
+
+      if (stream.useSse) {
+        writeEvent(stream.res, message);
+      } else {
+        stream.responses.push(message);
+      }
+
+      if (stream.remaining.size === 0) {
+        if (stream.useSse) {
+          stream.res.end();
+        } else {
+          stream.res.writeHead(200, { 'Content-Type': 'application/json' });
+          stream.res.end(JSON.stringify(stream.responses.length === 1 ? stream.responses[0] : stream.responses));
+        }
+      }
+      return;
+    }
+
+    // Notifications and server-to-client requests
+    const target = this.standaloneStream
+      ?? [...this.pending.values()].find(stream => stream.useSse)?.res;
+    if (target) {
+      writeEvent(target, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.standaloneStream?.end();
+    this.standaloneStream = null;
+
+    for (const stream of new Set(this.pending.values())) {
+      stream.res.end();
+    }
+    this.pending.clear();
+
+    this.onclose?.();
+  }
+}
+
+export function writeJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+function openEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+}
+
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { AuditLog } from '../src/audit/AuditLog.js';
+
+describe('AuditLog', () => {
+  let base: string;
+  let files = 0;
+
+  before(async () => {
+    base = await mkdtemp(join(tmpdir(), 'audit-log-'));
+  });
+
+  after(() => rm(base, { recursive: true, force: true }));
+
+  // Each test writes its own log file
+  function createLog(options: { maxFileSizeMB?: number; maxFiles?: number; hashBodies?: boolean } = {}) {
+    const file = join(base, `audit-${++files}.jsonl`);
+    const log = new AuditLog({
+      enabled: true,
+      file,
+      hashBodies: options.hashBodies ?? true,
+      maxFileSizeMB: options.maxFileSizeMB ?? 10,
+      maxFiles: options.maxFiles ?? 5
+    }, () => 'jane@contoso.com');
+    return { log, file };
+  }
+
+  function record(log: AuditLog, tool: string, outcome: 'success' | 'error' = 'success', args: unknown = {}) {
+    return log.record({ tool, arguments: args, outcome, graphRequests: [] });
+  }
+
+  it('writes one private JSON line per call', async () => {
+    const { log, file } = createLog();
+
+    await record(log, 'sendMail', 'success', { to: ['lee@fabrikam.com'], subject: 'Hi', cc: undefined });
+
+    const [entry] = (await readFile(file, 'utf-8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+    assert.equal(entry.account, 'jane@contoso.com');
+    assert.deepEqual(entry.arguments, { to: ['lee@fabrikam.com'], subject: 'Hi' });
+    assert.equal((await stat(file)).mode & 0o777, 0o600);
+  });
+
+  it('hashes message bodies unless told to keep them', async () => {
+    const hashed = createLog();
+    const plain = createLog({ hashBodies: false });
+    const args = { recipient: 'lee@fabrikam.com', message: 'Secret plans', adaptiveCard: { type: 'AdaptiveCard' } };
+
+    await record(hashed.log, 'sendTeamsMessage', 'success', args);
+    await record(plain.log, 'sendTeamsMessage', 'success', args);
+
+    const [entry] = await hashed.log.query({ limit: 1 });
+    assert.equal(entry!.arguments.recipient, 'lee@fabrikam.com');
+    assert.match(entry!.arguments.message as string, /^sha256:[0-9a-f]{16}$/);
+    assert.match(entry!.arguments.adaptiveCard as string, /^sha256:/);
+    assert.doesNotMatch(await readFile(hashed.file, 'utf-8'), /Secret plans/);
+    assert.equal((await plain.log.query({ limit: 1 }))[0]!.arguments.message, 'Secret plans');
+  });
+
+  it('rotates the file to .1 once it outgrows the size limit', async () => {
+    // About two entries per file
+    const { log, file } = createLog({ maxFileSizeMB: 300 / 1024 / 1024, maxFiles: 2 });
+
+    for (let index = 1; index <= 7; index++) {
+      await record(log, `tool${index}`);
+    }
+
+    const tools = async (path: string) => (await readFile(path, 'utf-8')).split('\n').filter(Boolean)
+      .map(line => JSON.parse(line).tool);
+    assert.deepEqual(await tools(file), ['tool7']);
+    assert.deepEqual(await tools(`${file}.1`), ['tool5', 'tool6']);
+    assert.deepEqual(await tools(`${file}.2`), ['tool3', 'tool4']);
+    // Beyond maxFiles the oldest entries are dropped
+    await assert.rejects(stat(`${file}.3`), { code: 'ENOENT' });
+    assert.deepEqual((await log.query({ limit: 10 })).map(entry => entry.tool),
+      ['tool7', 'tool6', 'tool5', 'tool4', 'tool3']);
+  });
+
+  it('queries newest first with tool, outcome, since and limit filters', async () => {
+    const { log } = createLog();
+    await record(log, 'sendMail');
+    await record(log, 'sendTeamsMessage', 'error');
+    await sleep(10);
+    const since = new Date();
+    await record(log, 'sendMail', 'error');
+    await record(log, 'sendTeamsMessage');
+    await record(log, 'sendMail');
+
+    const summary = (entries: Array<{ tool: string; outcome: string }>) =>
+      entries.map(entry => `${entry.tool}:${entry.outcome}`);
+    assert.deepEqual(summary(await log.query({ limit: 10 })), [
+      'sendMail:success', 'sendTeamsMessage:success', 'sendMail:error', 'sendTeamsMessage:error', 'sendMail:success'
+    ]);
+    assert.deepEqual(summary(await log.query({ tool: 'sendMail', limit: 10 })),
+      ['sendMail:success', 'sendMail:error', 'sendMail:success']);
+    assert.deepEqual(summary(await log.query({ outcome: 'error', limit: 10 })),
+      ['sendMail:error', 'sendTeamsMessage:error']);
+    assert.deepEqual(summary(await log.query({ since, limit: 10 })),
+      ['sendMail:success', 'sendTeamsMessage:success', 'sendMail:error']);
+    assert.deepEqual(summary(await log.query({ limit: 2 })), ['sendMail:success', 'sendTeamsMessage:success']);
+  });
+});
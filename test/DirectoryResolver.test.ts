@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { AmbiguousNameError, DirectoryResolver } from '../src/directory/DirectoryResolver.js';
+
+interface FakeDirectory {
+  // Results of /me/people and /users searches, whatever the query
+  people: Array<{ displayName: string; email: string }>;
+  users: Array<{ displayName: string; mail: string }>;
+}
+
+// Answers people and directory searches in memory and counts the directory searches
+function createResolver(directory: FakeDirectory): { resolver: DirectoryResolver; directorySearches: () => number } {
+  let directorySearches = 0;
+  const graphClient = Client.initWithMiddleware({
+    middleware: {
+      setNext() {},
+      async execute(context: any) {
+        const url = new URL(context.request);
+        let value: unknown[];
+        if (url.pathname.endsWith('/me/people')) {
+          value = directory.people.map(person => ({
+            displayName: person.displayName,
+            scoredEmailAddresses: [{ address: person.email }],
+            personType: { class: 'Person', subclass: 'OrganizationUser' }
+          }));
+        } else {
+          directorySearches++;
+          value = directory.users;
+        }
+        context.response = new Response(JSON.stringify({ value }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+  });
+  return { resolver: new DirectoryResolver(graphClient), directorySearches: () => directorySearches };
+}
+
+describe('DirectoryResolver.findPerson', () => {
+  it('prefers an exact name over partial matches', async () => {
+    const { resolver } = createResolver({
+      people: [
+        { displayName: 'Alex Kim', email: 'alex.kim@contoso.com' },
+        { displayName: 'Alex Kimball', email: 'alex.kimball@contoso.com' }
+      ],
+      users: []
+    });
+
+    assert.equal((await resolver.findPerson('alex kim')).email, 'alex.kim@contoso.com');
+  });
+
+  it('matches the words of a name in any order and email aliases', async () => {
+    const { resolver } = createResolver({
+      people: [{ displayName: 'Doe, Jane', email: 'jdoe@contoso.com' }],
+      users: []
+    });
+
+    assert.equal((await resolver.findPerson('Jane Doe')).email, 'jdoe@contoso.com');
+    assert.equal((await resolver.findPerson('jdoe')).email, 'jdoe@contoso.com');
+  });
+
+  it('does not take a lone people result whose name does not match', async () => {
+    const { resolver, directorySearches } = createResolver({
+      // People search is fuzzy and ranks by relevance, so it can return someone else
+      people: [{ displayName: 'Janet Dorsey', email: 'janet.dorsey@contoso.com' }],
+      users: [{ displayName: 'Jane Doe', mail: 'jane.doe@contoso.com' }]
+    });
+
+    assert.equal((await resolver.findPerson('Jane Doe')).email, 'jane.doe@contoso.com');
+    assert.equal(directorySearches(), 1);
+  });
+
+  it('fails when neither search has a matching name', async () => {
+    const { resolver } = createResolver({
+      people: [{ displayName: 'Janet Dorsey', email: 'janet.dorsey@contoso.com' }],
+      users: [{ displayName: 'Jan Dobbs', mail: 'jan.dobbs@contoso.com' }]
+    });
+
+    await assert.rejects(resolver.findPerson('Jane Doe'), /No person named "Jane Doe" found/);
+  });
+
+  it('lists the candidates when a name is ambiguous', async () => {
+    const { resolver, directorySearches } = createResolver({
+      people: [
+        { displayName: 'Alex Kim', email: 'alex.kim@contoso.com' },
+        { displayName: 'Alex Wu', email: 'alex.wu@contoso.com' }
+      ],
+      users: []
+    });
+
+    await assert.rejects(resolver.findPerson('alex'), (error: unknown) => {
+      assert.ok(error instanceof AmbiguousNameError);
+      assert.deepEqual(error.candidates, ['Alex Kim <alex.kim@contoso.com>', 'Alex Wu <alex.wu@contoso.com>']);
+      return true;
+    });
+    assert.equal(directorySearches(), 0);
+  });
+});
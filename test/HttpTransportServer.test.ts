@@ -0,0 +1,150 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { createServer as createNetServer, AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectorConfig } from '../src/config/ConnectorConfig.js';
+import { HttpTransportServer } from '../src/transport/HttpTransportServer.js';
+
+const TOKEN = 'a-long-enough-test-token';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'transport-test', version: '1.0.0' }
+  }
+};
+
+interface HttpResult {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createNetServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// node:http rather than fetch, which does not let a test set Host
+function send(port: number, method: string, headers: Record<string, string>, body?: unknown): Promise<HttpResult> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      method,
+      path: '/mcp',
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...headers
+      }
+    }, res => {
+      let text = '';
+      res.on('data', chunk => text += chunk);
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: text ? JSON.parse(text) : undefined }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+describe('HttpTransportServer', () => {
+  let server: HttpTransportServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function start(options: Partial<ConnectorConfig['transport']> = {}): Promise<number> {
+    const port = await freePort();
+    server = new HttpTransportServer({
+      type: 'http',
+      host: '127.0.0.1',
+      port,
+      allowedOrigins: [],
+      sessionIdleMinutes: 30,
+      ...options
+    }, () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }));
+    await server.start();
+    return port;
+  }
+
+  it('requires the bearer token when one is configured', async () => {
+    const port = await start({ bearerToken: TOKEN });
+
+    const missing = await send(port, 'POST', {}, INITIALIZE);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.body.error.code, -32001);
+
+    // Same number of characters as the token, but more bytes
+    const nonAscii = await send(port, 'POST', { Authorization: `Bearer ${'é'.repeat(TOKEN.length)}` }, INITIALIZE);
+    assert.equal(nonAscii.status, 401);
+    assert.equal(nonAscii.body.error.code, -32001);
+
+    const valid = await send(port, 'POST', { Authorization: `Bearer ${TOKEN}` }, INITIALIZE);
+    assert.equal(valid.status, 200);
+  });
+
+  it('opens a session on initialize and closes it on DELETE', async () => {
+    const port = await start();
+
+    const initialized = await send(port, 'POST', {}, INITIALIZE);
+    assert.equal(initialized.status, 200);
+    assert.equal(initialized.body.result.serverInfo.name, 'test');
+    const sessionId = initialized.headers['mcp-session-id'] as string;
+    assert.ok(sessionId);
+
+    const ping = await send(port, 'POST', { 'mcp-session-id': sessionId }, { jsonrpc: '2.0', id: 2, method: 'ping' });
+    assert.equal(ping.status, 200);
+    assert.deepEqual(ping.body.result, {});
+
+    assert.equal((await send(port, 'DELETE', { 'mcp-session-id': sessionId })).status, 204);
+    const afterDelete = await send(port, 'POST', { 'mcp-session-id': sessionId }, { jsonrpc: '2.0', id: 3, method: 'ping' });
+    assert.equal(afterDelete.status, 404);
+  });
+
+  it('refuses requests without a session that do not initialize one', async () => {
+    const port = await start();
+
+    const result = await send(port, 'POST', {}, { jsonrpc: '2.0', id: 1, method: 'ping' });
+    assert.equal(result.status, 400);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    // 60ms
+    const port = await start({ sessionIdleMinutes: 0.001 });
+
+    const sessionId = (await send(port, 'POST', {}, INITIALIZE)).headers['mcp-session-id'] as string;
+    await sleep(200);
+
+    const result = await send(port, 'POST', { 'mcp-session-id': sessionId }, { jsonrpc: '2.0', id: 2, method: 'ping' });
+    assert.equal(result.status, 404);
+  });
+
+  it('refuses other origins and host names (DNS rebinding)', async () => {
+    const port = await start({ allowedOrigins: ['https://app.example.com'] });
+
+    const foreignOrigin = await send(port, 'POST', { Origin: 'https://evil.example' }, INITIALIZE);
+    assert.equal(foreignOrigin.status, 403);
+
+    const rebound = await send(port, 'POST', { Host: `evil.example:${port}` }, INITIALIZE);
+    assert.equal(rebound.status, 403);
+
+    assert.equal((await send(port, 'POST', { Origin: `http://localhost:${port}` }, INITIALIZE)).status, 200);
+    assert.equal((await send(port, 'POST', { Origin: 'https://app.example.com' }, INITIALIZE)).status, 200);
+  });
+});
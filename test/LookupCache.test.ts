@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { LookupCache } from '../src/cache/LookupCache.js';
+
+const TTL_SECONDS = { users: 3600, chats: 3600, teams: 900, channels: 900 };
+
+// Counts how often the cache had to load the value
+function loader(value: () => string | undefined = () => 'loaded') {
+  let calls = 0;
+  return { load: async () => (calls++, value()), calls: () => calls };
+}
+
+describe('LookupCache', () => {
+  let base: string;
+
+  before(async () => {
+    base = await mkdtemp(join(tmpdir(), 'lookup-cache-'));
+  });
+
+  after(() => rm(base, { recursive: true, force: true }));
+
+  it('loads a value once until it expires', async () => {
+    const cache = new LookupCache({ enabled: true, ttlSeconds: { ...TTL_SECONDS, users: 0.05 } });
+    const { load, calls } = loader();
+
+    assert.equal(await cache.get('users', 'jane', load), 'loaded');
+    assert.equal(await cache.get('users', 'jane', load), 'loaded');
+    assert.equal(calls(), 1);
+
+    await sleep(100);
+    await cache.get('users', 'jane', load);
+    assert.equal(calls(), 2);
+  });
+
+  it('does not cache undefined, disabled regions or a disabled cache', async () => {
+    const noValue = loader(() => undefined);
+    const cache = new LookupCache({ enabled: true, ttlSeconds: { ...TTL_SECONDS, teams: 0 } });
+    await cache.get('users', 'nobody', noValue.load);
+    await cache.get('users', 'nobody', noValue.load);
+    assert.equal(noValue.calls(), 2);
+
+    const teams = loader();
+    await cache.get('teams', 'me', teams.load);
+    await cache.get('teams', 'me', teams.load);
+    assert.equal(teams.calls(), 2);
+
+    const disabled = new LookupCache({ enabled: false, ttlSeconds: TTL_SECONDS });
+    const users = loader();
+    await disabled.get('users', 'jane', users.load);
+    await disabled.get('users', 'jane', users.load);
+    assert.equal(users.calls(), 2);
+  });
+
+  it('clears only the requested regions', async () => {
+    const cache = new LookupCache({ enabled: true, ttlSeconds: TTL_SECONDS });
+    cache.set('users', 'jane', 'u1');
+    cache.set('users', 'lee', 'u2');
+    cache.set('chats', 'jane', 'c1');
+
+    assert.deepEqual(await cache.clear(['users']), { users: 2 });
+
+    const users = loader();
+    await cache.get('users', 'jane', users.load);
+    assert.equal(users.calls(), 1);
+    assert.equal(await cache.get('chats', 'jane', loader().load), 'c1');
+    assert.deepEqual(await cache.clear(), { users: 1, chats: 1, teams: 0, channels: 0 });
+  });
+
+  it('persists entries to a private file that a new cache reads', async () => {
+    const dir = join(base, 'persisted');
+    const file = join(dir, 'cache.json');
+    const cache = new LookupCache({ enabled: true, file, ttlSeconds: TTL_SECONDS });
+    await cache.get('chats', 'jane', async () => '19:abc@thread.v2');
+    cache.set('users', 'lee', 'u2');
+    // Clearing nothing waits for the pending saves
+    await cache.clear([]);
+
+    assert.equal((await stat(file)).mode & 0o777, 0o600);
+    // The temporary file is renamed over the cache file
+    assert.deepEqual(await readdir(dir), ['cache.json']);
+    const content = JSON.parse(await readFile(file, 'utf-8'));
+    assert.equal(content.version, 1);
+    assert.equal(content.regions.chats.jane.value, '19:abc@thread.v2');
+
+    const reloaded = new LookupCache({ enabled: true, file, ttlSeconds: TTL_SECONDS });
+    const { load, calls } = loader();
+    assert.equal(await reloaded.get('users', 'lee', load), 'u2');
+    assert.equal(calls(), 0);
+  });
+
+  it('starts cold from a corrupt cache file', async () => {
+    const file = join(base, 'corrupt.json');
+    await writeFile(file, '{"version":1,"regions":');
+    const cache = new LookupCache({ enabled: true, file, ttlSeconds: TTL_SECONDS });
+
+    assert.equal(await cache.get('users', 'jane', loader().load), 'loaded');
+  });
+});
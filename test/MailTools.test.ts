@@ -0,0 +1,80 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { MailTools } from '../src/tools/MailTools.js';
+
+// Dry runs read the attachments but never call Graph
+const graphClient = Client.initWithMiddleware({
+  middleware: {
+    setNext() {},
+    async execute() {
+      throw new Error('Graph must not be called');
+    }
+  }
+});
+
+describe('sendMail attachments', () => {
+  let base: string;
+  let attachmentDir: string;
+  let auditFile: string;
+
+  before(async () => {
+    base = await mkdtemp(join(tmpdir(), 'mail-tools-'));
+    attachmentDir = join(base, 'outbox');
+    auditFile = join(attachmentDir, 'audit.jsonl');
+    await mkdir(attachmentDir);
+    await writeFile(join(attachmentDir, 'report.txt'), 'Quarterly numbers');
+    await writeFile(join(base, 'secret.txt'), 'Not for mail');
+    await writeFile(auditFile, '{}\n');
+    await writeFile(`${auditFile}.1`, '{}\n');
+    await symlink(join(base, 'secret.txt'), join(attachmentDir, 'link.txt'));
+  });
+
+  after(() => rm(base, { recursive: true, force: true }));
+
+  async function send(attachments: string[], dir: string | null = attachmentDir) {
+    const mail = new MailTools(graphClient, '/me', { enabled: true, ...(dir && { attachmentDir: dir }) }, [auditFile]);
+    const result = await mail.sendMail({
+      to: ['jane@contoso.com'],
+      subject: 'Report',
+      body: 'Attached',
+      attachments
+    }, { dryRun: true });
+    return { isError: result.isError === true, text: result.content[0].text as string };
+  }
+
+  it('attaches files in the attachment directory', async () => {
+    const relative = await send(['report.txt']);
+    const absolute = await send([join(attachmentDir, 'report.txt')]);
+
+    assert.equal(relative.isError, false);
+    assert.match(relative.text, /Attachments: report\.txt/);
+    assert.equal(absolute.isError, false);
+  });
+
+  it('refuses files outside the attachment directory', async () => {
+    for (const path of ['../secret.txt', join(base, 'secret.txt'), 'link.txt']) {
+      const result = await send([path]);
+      assert.equal(result.isError, true, path);
+      assert.match(result.text, /outside the attachment directory/, path);
+    }
+  });
+
+  it('refuses the connector\'s own files inside the directory', async () => {
+    for (const path of ['audit.jsonl', 'audit.jsonl.1']) {
+      const result = await send([path]);
+      assert.equal(result.isError, true, path);
+      assert.match(result.text, /connector's own files/, path);
+    }
+  });
+
+  it('refuses attachments when no directory is configured', async () => {
+    const result = await send(['report.txt'], null);
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /mail\.attachmentDir/);
+  });
+});
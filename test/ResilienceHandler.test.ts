@@ -0,0 +1,202 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client, HTTPMessageHandler } from '@microsoft/microsoft-graph-client';
+import { ResilienceHandler, ResilienceOptions, idempotencyOptions } from '../src/graph/ResilienceHandler.js';
+
+interface FakeResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  // Hold the response back to trigger the attempt timeout
+  delayMs?: number;
+}
+
+const OPTIONS: ResilienceOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  timeoutMs: 200,
+  breakerThreshold: 10,
+  breakerCooldownMs: 60_000,
+  idempotencyWindowMs: 60_000
+};
+
+/**
+ * Local stand-in for Graph: answers each request with the next scripted response
+ * (200 with an empty object once the script runs out) and records what it received.
+ */
+class FakeGraph {
+  readonly requests: { method: string; url: string; body: string }[] = [];
+  private script: FakeResponse[] = [];
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  respondWith(...responses: FakeResponse[]): void {
+    this.script.push(...responses);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.script = [];
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      this.requests.push({ method: req.method!, url: req.url!, body });
+      const response = this.script.shift() ?? { status: 200, body: {} };
+      const timer = setTimeout(() => {
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body ?? {}));
+      }, response.delayMs ?? 0);
+      res.on('close', () => clearTimeout(timer));
+    });
+  }
+}
+
+function createClient(graph: FakeGraph, options: Partial<ResilienceOptions> = {}): Client {
+  return Client.initWithMiddleware({
+    baseUrl: graph.baseUrl,
+    middleware: [new ResilienceHandler({ ...OPTIONS, ...options }), new HTTPMessageHandler()]
+  });
+}
+
+describe('ResilienceHandler', () => {
+  const graph = new FakeGraph();
+
+  before(() => graph.listen());
+  after(() => graph.close());
+  beforeEach(() => graph.reset());
+
+  it('retries a throttled read after Retry-After', async () => {
+    graph.respondWith(
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { status: 503 },
+      { status: 200, body: { displayName: 'Jane Doe' } }
+    );
+
+    const user = await createClient(graph).api('/me').get();
+
+    assert.equal(user.displayName, 'Jane Doe');
+    assert.equal(graph.requests.length, 3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    graph.respondWith({ status: 503 }, { status: 503 }, { status: 503 }, { status: 200 });
+
+    await assert.rejects(createClient(graph).api('/me').get(), (error: any) => error.statusCode === 503);
+    assert.equal(graph.requests.length, 3);
+  });
+
+  it('retries a send Graph rejected unprocessed', async () => {
+    graph.respondWith({ status: 429, headers: { 'Retry-After': '0' } }, { status: 201, body: { id: 'message-1' } });
+
+    const message = await createClient(graph).api('/chats/chat-1/messages').post({ body: { content: 'Hi' } });
+
+    assert.equal(message.id, 'message-1');
+    assert.equal(graph.requests.length, 2);
+  });
+
+  it('does not retry a send after an ambiguous gateway error', async () => {
+    graph.respondWith({ status: 504 }, { status: 201, body: { id: 'message-1' } });
+
+    await assert.rejects(createClient(graph).api('/chats/chat-1/messages').post({}));
+    assert.equal(graph.requests.length, 1);
+  });
+
+  it('times out a hanging attempt and retries reads only', async () => {
+    graph.respondWith({ status: 200, delayMs: 1000 }, { status: 200, body: { id: 'me' } });
+    const user = await createClient(graph).api('/me').get();
+    assert.equal(user.id, 'me');
+    assert.equal(graph.requests.length, 2);
+
+    graph.reset();
+    graph.respondWith({ status: 201, delayMs: 1000 });
+    await assert.rejects(createClient(graph).api('/chats/chat-1/messages').post({}), /timed out/);
+    assert.equal(graph.requests.length, 1);
+  });
+
+  it('replays a repeated send with the same idempotency key', async () => {
+    graph.respondWith({ status: 201, body: { id: 'message-1' } }, { status: 201, body: { id: 'message-2' } });
+    const client = createClient(graph);
+    const send = () => client
+      .api('/chats/chat-1/messages')
+      .middlewareOptions(idempotencyOptions('key-1'))
+      .post({ body: { content: 'Hi' } });
+
+    const [first, concurrent] = await Promise.all([send(), send()]);
+    const repeated = await send();
+
+    assert.equal(first.id, 'message-1');
+    assert.equal(concurrent.id, 'message-1');
+    assert.equal(repeated.id, 'message-1');
+    assert.equal(graph.requests.length, 1);
+  });
+
+  it('sends a repeated send without a key again', async () => {
+    graph.respondWith({ status: 201, body: { id: 'message-1' } }, { status: 201, body: { id: 'message-2' } });
+    const client = createClient(graph);
+    const send = () => client
+      .api('/chats/chat-1/messages')
+      .middlewareOptions(idempotencyOptions(undefined))
+      .post({ body: { content: 'Hi' } });
+
+    assert.equal((await send()).id, 'message-1');
+    assert.equal((await send()).id, 'message-2');
+    assert.equal(graph.requests.length, 2);
+  });
+
+  it('refuses a key reused for a different send', async () => {
+    graph.respondWith({ status: 201, body: { id: 'message-1' } }, { status: 201, body: { id: 'message-2' } });
+    const client = createClient(graph);
+    const send = (path: string, content: string) => client
+      .api(path)
+      .middlewareOptions(idempotencyOptions('key-3'))
+      .post({ body: { content } });
+
+    assert.equal((await send('/chats/chat-1/messages', 'Hi')).id, 'message-1');
+    await assert.rejects(send('/chats/chat-1/messages', 'Bye'), /already used for a different request/);
+    await assert.rejects(send('/chats/chat-2/messages', 'Hi'), /already used for a different request/);
+    await assert.rejects(client.api('/me/sendMail').middlewareOptions(idempotencyOptions('key-3')).post({}),
+      /already used for a different request/);
+    assert.equal(graph.requests.length, 1);
+  });
+
+  it('does not record a failed keyed send', async () => {
+    graph.respondWith({ status: 400, body: { error: { code: 'BadRequest' } } }, { status: 201, body: { id: 'message-1' } });
+    const client = createClient(graph);
+    const send = () => client
+      .api('/chats/chat-1/messages')
+      .middlewareOptions(idempotencyOptions('key-2'))
+      .post({});
+
+    await assert.rejects(send());
+    assert.equal((await send()).id, 'message-1');
+    assert.equal(graph.requests.length, 2);
+  });
+
+  it('fails fast while the circuit is open', async () => {
+    graph.respondWith({ status: 500 }, { status: 500 });
+    const client = createClient(graph, { breakerThreshold: 2 });
+
+    await assert.rejects(client.api('/me').get());
+    await assert.rejects(client.api('/me').get());
+    await assert.rejects(client.api('/me').get(), /unavailable after repeated failures/);
+    assert.equal(graph.requests.length, 2);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceRegistry } from '../src/resources/ResourceRegistry.js';
+import { registerCalendarResources } from '../src/resources/calendarResources.js';
+import type { ToolServices } from '../src/tools/ToolRegistry.js';
+
+// The test resource echoes its variables and needs no services
+const services = {} as ToolServices;
+
+function createRegistry(): ResourceRegistry {
+  const registry = new ResourceRegistry();
+  registry.register({
+    uriTemplate: 'teams://chat/{chatId}/messages',
+    name: 'Chat messages',
+    description: 'Echoes the chat ID',
+    read: async ({ chatId }) => ({ content: [{ type: 'text', text: `chat ${chatId}` }] })
+  });
+  return registry;
+}
+
+function isInvalidParams(pattern: RegExp) {
+  return (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams && pattern.test(error.message);
+}
+
+describe('ResourceRegistry.read', () => {
+  it('passes percent-decoded variables to the resource', async () => {
+    const result = await createRegistry().read('teams://chat/19%3Aabc%40thread.v2/messages', services);
+
+    assert.equal(result.contents[0]!.text, 'chat 19:abc@thread.v2');
+  });
+
+  it('rejects variables that decode to a path', async () => {
+    const registry = createRegistry();
+
+    for (const chatId of ['..%2Fusers', '19%3Aabc%2Fmembers', '..']) {
+      await assert.rejects(registry.read(`teams://chat/${chatId}/messages`, services),
+        isInvalidParams(/must not contain/), chatId);
+    }
+  });
+
+  it('rejects malformed percent-encoding as invalid params', async () => {
+    await assert.rejects(createRegistry().read('teams://chat/19%3/messages', services),
+      isInvalidParams(/Invalid percent-encoding in chatId/));
+  });
+});
+
+describe('calendar://day/{date}', () => {
+  // The agenda echoes the day it was asked for
+  const calendarServices = {
+    calendar: { getAgenda: async (date: string) => ({ content: [{ type: 'text', text: `agenda ${date}` }] }) }
+  } as unknown as ToolServices;
+
+  function createCalendarRegistry(): ResourceRegistry {
+    const registry = new ResourceRegistry();
+    registerCalendarResources(registry);
+    return registry;
+  }
+
+  it('reads the agenda of a valid day, including leap days', async () => {
+    for (const date of ['2026-10-20', '2028-02-29']) {
+      const result = await createCalendarRegistry().read(`calendar://day/${date}`, calendarServices);
+      assert.equal(result.contents[0]!.text, `agenda ${date}`);
+    }
+  });
+
+  it('rejects days that do not exist', async () => {
+    for (const date of ['2026-02-31', '2026-02-29', '2026-04-31', '2026-13-01', '2026-1-5', 'tomorrow']) {
+      await assert.rejects(createCalendarRegistry().read(`calendar://day/${date}`, calendarServices),
+        isInvalidParams(/Expected a date like 2026-10-20/), date);
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { z } from 'zod';
+import { ConnectorConfig } from '../src/config/ConnectorConfig.js';
+import { ToolRegistry, ToolServices, previewResult } from '../src/tools/ToolRegistry.js';
+import { registerTeamsTools } from '../src/tools/TeamsTools.js';
+
+// No call here reaches a handler that uses services
+const services = {} as ToolServices;
+
+// A write tool that counts how often it really posted
+function createRegistry(safety: ConnectorConfig['safety']): { registry: ToolRegistry; posted: () => number } {
+  let posted = 0;
+  const registry = new ToolRegistry(safety);
+  registry.register({
+    name: 'postNote',
+    description: 'Posts a note',
+    inputSchema: z.object({ text: z.string().min(1).describe('Note text') }),
+    writes: true,
+    handler: async ({ text }, _services, { dryRun }) => {
+      if (dryRun) {
+        return previewResult([`Would post "${text}"`], [{ method: 'POST', url: '/notes', body: { text } }]);
+      }
+      posted++;
+      return { content: [{ type: 'text', text: `Posted "${text}"` }] };
+    }
+  });
+  return { registry, posted: () => posted };
+}
+
+function text(result: { content: Array<{ type: string; text?: string }> }): string {
+  return result.content.map(item => item.text ?? '').join('\n');
+}
+
+function confirmationToken(result: { content: Array<{ type: string; text?: string }> }): string {
+  const match = /"confirmationToken": "([^"]+)"/.exec(text(result));
+  assert.ok(match, 'preview offers a confirmation token');
+  return match[1]!;
+}
+
+describe('ToolRegistry', () => {
+  function teamsRegistry(safety?: ConnectorConfig['safety']): ToolRegistry {
+    const registry = new ToolRegistry(safety);
+    registerTeamsTools(registry, { channelMessages: false });
+    return registry;
+  }
+
+  it('lists the registered tools with JSON schemas for their arguments', () => {
+    const tools = teamsRegistry().list();
+    const listChannels = tools.find(tool => tool.name === 'listChannels');
+
+    assert.ok(tools.some(tool => tool.name === 'sendTeamsMessage'));
+    // Channel message tools need features.channelMessages
+    assert.ok(!tools.some(tool => tool.name === 'getChannelMessages'));
+    assert.deepEqual(listChannels?.inputSchema, {
+      type: 'object',
+      properties: {
+        teamId: { type: 'string', minLength: 1, description: 'Team ID from listTeams' },
+        nameContains: { type: 'string', description: 'Only channels whose name contains this text (case-insensitive)' },
+        top: { type: 'integer', minimum: 1, maximum: 100, default: 50, description: 'Maximum number of channels to return' },
+        cursor: { type: 'string', description: 'Cursor from a previous call, to fetch the next page of results' }
+      },
+      required: ['teamId']
+    });
+  });
+
+  it('offers a confirmation token argument on write tools in confirm mode', () => {
+    const tools = teamsRegistry({ mode: 'confirm', confirmationTtlSeconds: 600 }).list();
+    const properties = (name: string) => Object.keys(tools.find(tool => tool.name === name)!.inputSchema.properties ?? {});
+
+    assert.ok(properties('sendTeamsMessage').includes('confirmationToken'));
+    assert.ok(!properties('listChannels').includes('confirmationToken'));
+  });
+
+  it('returns invalid arguments as an error result naming each field', async () => {
+    const result = await teamsRegistry().call('getChatMessages', { chatId: '19:abc/../members', top: 500 }, services);
+
+    assert.equal(result.isError, true);
+    assert.equal(text(result), 'Invalid arguments for getChatMessages:\n' +
+      '- chatId: Expected a chat ID like 19:...@thread.v2\n' +
+      '- top: Number must be less than or equal to 50');
+  });
+
+  it('returns an error result for unknown tools', async () => {
+    const result = await teamsRegistry().call('deleteEverything', {}, services);
+
+    assert.equal(result.isError, true);
+    assert.equal(text(result), 'Unknown tool: deleteEverything');
+  });
+});
+
+describe('ToolRegistry safety modes', () => {
+  it('only previews writes in dryRun mode', async () => {
+    const { registry, posted } = createRegistry({ mode: 'dryRun', confirmationTtlSeconds: 600 });
+
+    const result = await registry.call('postNote', { text: 'hi' }, services);
+
+    assert.equal(result.isError, undefined);
+    assert.match(text(result), /^Dry run: nothing was sent or changed\./);
+    assert.match(text(result), /POST \/notes/);
+    assert.doesNotMatch(text(result), /confirmationToken/);
+    assert.equal(posted(), 0);
+  });
+
+  it('executes a confirmed write once per token', async () => {
+    const { registry, posted } = createRegistry({ mode: 'confirm', confirmationTtlSeconds: 600 });
+
+    const preview = await registry.call('postNote', { text: 'hi' }, services);
+    assert.equal(posted(), 0);
+    const token = confirmationToken(preview);
+
+    const confirmed = await registry.call('postNote', { text: 'hi', confirmationToken: token }, services);
+    assert.equal(text(confirmed), 'Posted "hi"');
+    assert.equal(posted(), 1);
+
+    const reused = await registry.call('postNote', { text: 'hi', confirmationToken: token }, services);
+    assert.equal(reused.isError, true);
+    assert.match(text(reused), /unknown, expired, already used or for different arguments/);
+    assert.equal(posted(), 1);
+  });
+
+  it('refuses a token used with different arguments', async () => {
+    const { registry, posted } = createRegistry({ mode: 'confirm', confirmationTtlSeconds: 600 });
+    const token = confirmationToken(await registry.call('postNote', { text: 'hi' }, services));
+
+    const changed = await registry.call('postNote', { text: 'bye', confirmationToken: token }, services);
+
+    assert.equal(changed.isError, true);
+    assert.equal(posted(), 0);
+  });
+
+  it('refuses an expired token', async () => {
+    const { registry, posted } = createRegistry({ mode: 'confirm', confirmationTtlSeconds: 0.05 });
+    const token = confirmationToken(await registry.call('postNote', { text: 'hi' }, services));
+
+    await sleep(100);
+    const expired = await registry.call('postNote', { text: 'hi', confirmationToken: token }, services);
+
+    assert.equal(expired.isError, true);
+    assert.equal(posted(), 0);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { ScheduleInformation } from '@microsoft/microsoft-graph-types';
+import { SlotSearch, findMeetingSlots } from '../src/calendar/availability.js';
+import { getZonedParts, parseDateTime, resolveTimeZone } from '../src/calendar/timeZones.js';
+import { ConnectorConfigSchema } from '../src/config/ConnectorConfig.js';
+import { CalendarTools } from '../src/tools/CalendarTools.js';
+
+// getSchedule for Tuesday 2025-07-15, 08:00-17:00 Pacific, requested with
+// Prefer: outlook.timezone="Pacific Standard Time" and a 30-minute view interval:
+// - alex (Pacific): busy 09:00-10:00, tentative 10:00-10:30
+// - nikhil (works 08:00-16:00 Eastern, i.e. 05:00-13:00 Pacific): busy 11:00-12:00
+// - megan (works 09:00-17:00 London, i.e. 01:00-09:00 Pacific): no meetings
+// - lee (external): availabilityView only, busy 12:00-12:30, tentative 12:30-13:00
+// - boardroom: error
+const schedules: ScheduleInformation[] = JSON.parse(
+  readFileSync(new URL('./fixtures/getSchedule.json', import.meta.url), 'utf8')
+).value;
+
+const pacific = resolveTimeZone('Pacific Standard Time')!;
+
+function search(overrides: Partial<SlotSearch> = {}): SlotSearch {
+  return {
+    start: parseDateTime('2025-07-15T08:00', pacific),
+    end: parseDateTime('2025-07-15T17:00', pacific),
+    durationMinutes: 30,
+    slotMinutes: 30,
+    zone: pacific,
+    viewIntervalMinutes: 30,
+    defaultWorkingHours: {
+      start: '09:00',
+      end: '17:00',
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+    },
+    optionalAttendees: ['megan@contoso.com'],
+    preferences: {},
+    maxSlots: 10,
+    ...overrides
+  };
+}
+
+// HH:mm in Pacific time
+function startTimes(slots: { start: Date }[]): string[] {
+  return slots.map(slot => {
+    const { hour, minute } = getZonedParts(slot.start, pacific);
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  });
+}
+
+describe('findMeetingSlots', () => {
+  it('ranks the slots where every required attendee can attend', () => {
+    const { slots } = findMeetingSlots(schedules, search());
+
+    assert.deepEqual(startTimes(slots), ['10:30', '10:00', '12:30']);
+    assert.deepEqual(slots.map(slot => slot.score), [90, 75, 75]);
+    assert.deepEqual(slots[0]!.free, ['alex@contoso.com', 'nikhil@contoso.com', 'lee@fabrikam.com']);
+    assert.deepEqual(slots[1]!.tentative, ['alex@contoso.com']);
+  });
+
+  it('applies each attendee\'s working hours in their own time zone', () => {
+    const { slots } = findMeetingSlots(schedules, search());
+
+    // Alex starts at 09:00 Pacific; Nikhil stops at 16:00 Eastern, 13:00 Pacific
+    assert.ok(slots.every(slot => slot.start >= parseDateTime('2025-07-15T09:00', pacific)));
+    assert.ok(slots.every(slot => slot.end <= parseDateTime('2025-07-15T13:00', pacific)));
+    // 10:00 Pacific is 18:00 in London
+    assert.ok(slots.every(slot => slot.busy.includes('megan@contoso.com')));
+  });
+
+  it('keeps slots an optional attendee misses and drops those a required one misses', () => {
+    assert.equal(findMeetingSlots(schedules, search({ optionalAttendees: [] })).slots.length, 0);
+
+    const { slots } = findMeetingSlots(schedules, search({
+      optionalAttendees: ['megan@contoso.com', 'nikhil@contoso.com']
+    }));
+    // Without Nikhil the afternoon opens up, with his absence counted against the score
+    const afternoon = slots.find(slot => startTimes([slot])[0] === '13:00');
+    assert.ok(afternoon);
+    assert.equal(afternoon.score, 80);
+    assert.deepEqual(afternoon.busy, ['nikhil@contoso.com', 'megan@contoso.com']);
+  });
+
+  it('falls back to availabilityView when Graph returns no schedule items', () => {
+    const { slots } = findMeetingSlots(schedules, search());
+
+    // Lee is busy 12:00-12:30 and tentative 12:30-13:00 only in the view
+    assert.ok(!startTimes(slots).includes('12:00'));
+    const tentative = slots.find(slot => startTimes([slot])[0] === '12:30');
+    assert.deepEqual(tentative?.tentative, ['lee@fabrikam.com']);
+  });
+
+  it('reads availabilityView in steps of the requested interval', () => {
+    const lee = schedules.find(schedule => schedule.scheduleId === 'lee@fabrikam.com')!;
+    const { slots } = findMeetingSlots([{ ...lee, availabilityView: '0000210000' }], search({
+      optionalAttendees: [],
+      viewIntervalMinutes: 60,
+      maxSlots: 20
+    }));
+
+    // Code 2 at index 4 is 12:00-13:00 and code 1 at index 5 is 13:00-14:00
+    assert.ok(!startTimes(slots).some(time => time === '12:00' || time === '12:30'));
+    assert.deepEqual(slots.find(slot => startTimes([slot])[0] === '13:30')?.tentative, ['lee@fabrikam.com']);
+  });
+
+  it('reports attendees whose schedule Graph could not return', () => {
+    const { unknown } = findMeetingSlots(schedules, search());
+
+    assert.deepEqual(unknown, [{ attendee: 'boardroom@contoso.com', reason: 'The specified mailbox does not exist' }]);
+  });
+});
+
+describe('CalendarTools.findAvailability', () => {
+  it('treats someone listed as required and optional as required', async () => {
+    let requested: string[] = [];
+    // Answers getSchedule from the fixture for the requested schedules
+    const graphClient = Client.initWithMiddleware({
+      middleware: {
+        setNext() {},
+        async execute(context: any) {
+          requested = JSON.parse(context.options.body).schedules;
+          const value = schedules.filter(schedule => requested.some(id => id.toLowerCase() === schedule.scheduleId));
+          context.response = new Response(JSON.stringify({ value }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    });
+    const calendar = new CalendarTools(graphClient, '/me', ConnectorConfigSchema.parse({}).calendar);
+
+    const result = await calendar.findAvailability({
+      attendees: ['alex@contoso.com', 'Nikhil@Contoso.com'],
+      optionalAttendees: ['nikhil@contoso.com', 'megan@contoso.com'],
+      startDate: '2025-07-15T08:00',
+      endDate: '2025-07-15T17:00',
+      duration: 30,
+      avoidLunch: false,
+      bufferMinutes: 0,
+      avoidBackToBack: false,
+      maxSuggestions: 20,
+      strategy: 'schedule',
+      timeZone: 'Pacific Standard Time'
+    });
+
+    assert.deepEqual(requested, ['alex@contoso.com', 'Nikhil@Contoso.com', 'megan@contoso.com']);
+    // Nikhil stops at 13:00 Pacific, so the afternoon stays closed
+    const text = result.content[0].text as string;
+    assert.match(text, /10:30/);
+    assert.doesNotMatch(text, /13:00 -/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { collectPages } from '../src/graph/collectPages.js';
+
+// Three pages of two numbered items, linked with @odata.nextLink
+const graphClient = Client.initWithMiddleware({
+  middleware: {
+    setNext() {},
+    async execute(context: any) {
+      const page = Number(new URL(context.request).searchParams.get('page') ?? 0);
+      const body = {
+        value: [page * 2, page * 2 + 1].map(id => ({ id })),
+        ...(page < 2 && { '@odata.nextLink': `https://graph.microsoft.com/v1.0/me/items?page=${page + 1}` })
+      };
+      context.response = new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+});
+
+function collect(cursor?: string) {
+  return collectPages<{ id: number }>(graphClient, graphClient.api('/me/items'), { maxItems: 3, cursor });
+}
+
+describe('collectPages', () => {
+  it('continues from the cursor where the last call stopped', async () => {
+    const first = await collect();
+    assert.deepEqual(first.items.map(item => item.id), [0, 1, 2]);
+    assert.ok(first.nextCursor);
+
+    const second = await collect(first.nextCursor);
+    assert.deepEqual(second.items.map(item => item.id), [3, 4, 5]);
+    assert.equal(second.nextCursor, undefined);
+  });
+
+  it('rejects cursors it did not issue', async () => {
+    const { nextCursor } = await collect();
+    const [, signature] = nextCursor!.split('.');
+    const forged = Buffer.from(JSON.stringify({ url: 'https://graph.microsoft.com/v1.0/me/messages', skip: 0 }))
+      .toString('base64url');
+
+    for (const cursor of [`${forged}.${signature}`, forged, 'not-a-cursor']) {
+      await assert.rejects(collect(cursor), /Invalid or expired cursor/, cursor);
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { markdownToHtml, sanitizeHtml, toMessageHtml } from '../src/teams/formatting.js';
+
+describe('markdownToHtml', () => {
+  it('renders headings, emphasis, code and links', () => {
+    assert.equal(
+      markdownToHtml('# Release *notes*\nShip **today**, not ~~tomorrow~~.\nSee [the plan](https://contoso.com/plan) and `npm test`.'),
+      '<h1>Release <em>notes</em></h1>' +
+      '<p>Ship <strong>today</strong>, not <s>tomorrow</s>.<br>' +
+      'See <a href="https://contoso.com/plan">the plan</a> and <code>npm test</code>.</p>'
+    );
+  });
+
+  it('renders nested lists, quotes, fenced code and tables', () => {
+    const markdown = [
+      '- One',
+      '  1. First',
+      '  2. Second',
+      '- Two',
+      '',
+      '> Quoted',
+      '',
+      '```',
+      'const a = 1 < 2;',
+      '```',
+      '',
+      '| Name | Score |',
+      '|------|------:|',
+      '| Jane | 3 |'
+    ].join('\n');
+
+    assert.equal(markdownToHtml(markdown),
+      '<ul><li>One<ol><li>First</li><li>Second</li></ol></li><li>Two</li></ul>' +
+      '<blockquote><p>Quoted</p></blockquote>' +
+      '<pre><code>const a = 1 &lt; 2;</code></pre>' +
+      '<table><thead><tr><th>Name</th><th>Score</th></tr></thead><tbody><tr><td>Jane</td><td>3</td></tr></tbody></table>');
+  });
+
+  it('shows raw HTML literally and drops unsafe links', () => {
+    assert.equal(markdownToHtml('<b>hi</b> [click](javascript:alert(1))'),
+      '<p>&lt;b&gt;hi&lt;/b&gt; click</p>');
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('removes scripts and embedded content with their contents', () => {
+    assert.equal(sanitizeHtml('<p>Hi<script>alert(1)</script><SCRIPT src="x.js"></SCRIPT><iframe src="x"></iframe></p>'),
+      '<p>Hi</p>');
+    assert.equal(sanitizeHtml('<svg><script>alert(1)</script></svg>ok<!-- note -->'), 'ok');
+  });
+
+  it('removes event handlers and other attributes', () => {
+    assert.equal(sanitizeHtml('<p onclick="steal()" style="color:red">Hi</p><img src=x onerror=alert(1)>'),
+      '<p>Hi</p>');
+    assert.equal(sanitizeHtml('<a href="https://contoso.com" onmouseover=\'steal()\'>link</a>'),
+      '<a href="https://contoso.com">link</a>');
+  });
+
+  it('keeps only http, https and mailto links', () => {
+    assert.equal(sanitizeHtml('<a href="javascript:alert(1)">x</a>'), '<a>x</a>');
+    assert.equal(sanitizeHtml('<a href=" JAVASCRIPT:alert(1)">x</a>'), '<a>x</a>');
+    assert.equal(sanitizeHtml('<a href=\'data:text/html,hi\'>x</a>'), '<a>x</a>');
+    assert.equal(sanitizeHtml('<a href=\'https://contoso.com/"x\'>x</a>'), '<a href="https://contoso.com/&quot;x">x</a>');
+    assert.equal(sanitizeHtml('<a href="mailto:jane@contoso.com">Jane</a>'), '<a href="mailto:jane@contoso.com">Jane</a>');
+  });
+
+  it('keeps the tags Teams renders', () => {
+    const html = '<h2>Title</h2><p><b>bold</b> <em>em</em> <u>u</u> <code>x</code><br></p>' +
+      '<ul><li>one</li></ul><blockquote>q</blockquote><table><tbody><tr><td>1</td></tr></tbody></table><hr>';
+
+    assert.equal(sanitizeHtml(html), html);
+    assert.equal(sanitizeHtml('<P>Hi<BR/></P>'), '<p>Hi<br></p>');
+  });
+
+  it('drops unknown tags but keeps their text', () => {
+    assert.equal(sanitizeHtml('<font color="red">red</font> <at id="0">Jane</at>'), 'red Jane');
+  });
+});
+
+describe('toMessageHtml', () => {
+  it('escapes plain text and keeps line breaks', () => {
+    assert.equal(toMessageHtml('a < b\nc & "d"', 'text'), 'a &lt; b<br>c &amp; &quot;d&quot;');
+  });
+});